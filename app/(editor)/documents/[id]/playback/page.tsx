@@ -1,59 +1,104 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
-import { usePlayback } from '@/hooks/usePlayback';
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { formatPlaybackSpeed, usePlayback } from '@/hooks/usePlayback';
+import { useNamedVersions } from '@/hooks/useNamedVersions';
+import { PLAYBACK_SHORTCUTS, usePlaybackShortcuts } from '@/hooks/usePlaybackShortcuts';
 import PlaybackPlayer from '@/components/playback/PlaybackPlayer';
+import ForkButton from '@/components/playback/ForkButton';
 import PlaybackControls from '@/components/playback/PlaybackControls';
+import RestoreButton from '@/components/playback/RestoreButton';
+import SessionSelector from '@/components/playback/SessionSelector';
 import SpeedSelector from '@/components/playback/SpeedSelector';
+import TimingSelector from '@/components/playback/TimingSelector';
 import TimelineSlider from '@/components/playback/TimelineSlider';
 import TimeDisplay from '@/components/playback/TimeDisplay';
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner';
-import type { WritingEvent } from '@/types/events';
+import { SHARE_TOKEN_PARAM, withShareToken } from '@/lib/auth/document-access';
+import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { streamEvents } from '@/lib/event-sourcing/event-stream';
+import type { Checkpoint, WritingEvent } from '@/types/events';
 
 export default function PlaybackPage() {
   const params = useParams();
   const documentId = params.id as string;
+  const shareToken = useSearchParams().get(SHARE_TOKEN_PARAM);
   const [events, setEvents] = useState<WritingEvent[]>([]);
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Bumped to load the history again (after a restore appended to it)
+  const [historyVersion, setHistoryVersion] = useState(0);
 
-  // Fetch events for the document
+  // Stream events for the document, showing the player after the first batch
   useEffect(() => {
+    const abortController = new AbortController();
+
     async function fetchEvents() {
       try {
         setLoading(true);
-        const response = await fetch(`/api/documents/${documentId}/events`);
-        
-        if (!response.ok) {
-          if (response.status === 404) {
-            throw new Error('Document not found');
-          } else if (response.status === 403) {
-            throw new Error('You do not have permission to view this document');
-          } else if (response.status >= 500) {
-            throw new Error('Server error. Please try again later.');
-          } else {
-            throw new Error(`Failed to fetch events: ${response.statusText}`);
+        setLoadingMore(true);
+        setEvents([]);
+
+        // Every new events array rebuilds the playback index and is sent
+        // to the replay worker again, so after the first batch the player
+        // only gets a new one each time the history has doubled (and once
+        // at the end): linear work in total instead of one copy per batch
+        const history: WritingEvent[] = [];
+        let shown = 0;
+
+        for await (const batch of streamEvents(documentId, {
+          shareToken,
+          signal: abortController.signal,
+        })) {
+          history.push(...batch.events);
+          if (shown === 0 || history.length >= shown * 2) {
+            shown = history.length;
+            setEvents([...history]);
+            setLoading(false);
           }
         }
-        
-        const data = await response.json();
-        setEvents(data.events || []);
+
+        if (history.length > shown) {
+          setEvents(history);
+        }
+
+        // Checkpoints only speed up seeking, so playback works without them
+        const checkpointResponse = await fetch(
+          withShareToken(`/api/documents/${documentId}/checkpoints`, shareToken),
+          { signal: abortController.signal }
+        );
+        if (checkpointResponse.ok) {
+          const checkpointData = await checkpointResponse.json();
+          setCheckpoints(checkpointData.checkpoints || []);
+        }
       } catch (err) {
+        if (abortController.signal.aborted) return;
         setError(err instanceof Error ? err.message : 'Unknown error');
       } finally {
-        setLoading(false);
+        if (!abortController.signal.aborted) {
+          setLoading(false);
+          setLoadingMore(false);
+        }
       }
     }
 
     if (documentId) {
       fetchEvents();
     }
-  }, [documentId]);
+
+    return () => abortController.abort();
+  }, [documentId, shareToken, historyVersion]);
+
+  const { versions } = useNamedVersions({ documentId, shareToken });
 
   const [status, controls] = usePlayback({
     events,
+    checkpoints,
+    versions,
     onFrameUpdate: (frame) => {
       // Frame updates are handled by PlaybackPlayer component
     },
@@ -62,6 +107,10 @@ export default function PlaybackPage() {
     },
   });
 
+  usePlaybackShortcuts(status, controls, events.length > 0);
+
+  const stats = useMemo(() => EventSourcingEngine.calculateStats(events), [events]);
+
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto p-6">
@@ -125,42 +174,97 @@ export default function PlaybackPage() {
                 speed={status.speed} 
                 onSpeedChange={controls.setSpeed} 
               />
-              <TimeDisplay 
+              <TimingSelector
+                timing={status.timing}
+                onTimingChange={controls.setTiming}
+              />
+              <TimeDisplay
                 currentTime={status.formattedTime}
                 totalTime={status.formattedTotalTime}
               />
+              {status.seekProgress !== null && (
+                <span className="text-xs text-gray-500 font-mono">
+                  Seeking… {Math.round(status.seekProgress * 100)}%
+                </span>
+              )}
             </div>
           </div>
           
+          {stats.session_count > 1 && (
+            <SessionSelector
+              sessions={status.sessionRuns}
+              value={status.sessionFilter}
+              onChange={controls.setSessionFilter}
+              className="mb-3"
+            />
+          )}
+
           <TimelineSlider
             currentTimeMs={status.currentTimeMs}
             totalTimeMs={status.totalTimeMs}
             progress={status.progress}
             controls={controls}
+            sessions={status.sessions}
+            idleGaps={status.idleGaps}
+            versions={status.versions}
           />
+
+          <details className="mt-3 text-xs text-gray-600">
+            <summary className="cursor-pointer">Keyboard shortcuts</summary>
+            <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+              {PLAYBACK_SHORTCUTS.map((shortcut) => (
+                <div key={shortcut.keys} className="contents">
+                  <dt className="font-mono">{shortcut.keys}</dt>
+                  <dd>{shortcut.action}</dd>
+                </div>
+              ))}
+            </dl>
+          </details>
         </div>
 
         {/* Playback Player */}
         <PlaybackPlayer 
           frame={status.currentFrame}
-          className="mb-6"
+          className="mb-4"
         />
 
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <RestoreButton
+            documentId={documentId}
+            frame={status.currentFrame}
+            headSeq={events[events.length - 1]?.seq ?? events.length}
+            disabled={status.state === 'playing' || loadingMore}
+            onRestored={() => setHistoryVersion((version) => version + 1)}
+          />
+          <ForkButton
+            documentId={documentId}
+            frame={status.currentFrame}
+            disabled={status.state === 'playing' || loadingMore}
+          />
+        </div>
+
         {/* Statistics */}
         <div className="p-4 bg-gray-50 rounded-lg">
           <h3 className="font-medium mb-2">Statistics</h3>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 text-sm">
             <div>
               <span className="text-gray-600">Total Events:</span>
-              <div className="font-mono">{events.length}</div>
+              <div className="font-mono">
+                {events.length}
+                {loadingMore && <span className="ml-1 text-gray-400">(loading…)</span>}
+              </div>
             </div>
             <div>
               <span className="text-gray-600">Duration:</span>
               <div className="font-mono">{status.formattedTotalTime}</div>
             </div>
+            <div>
+              <span className="text-gray-600">Sessions:</span>
+              <div className="font-mono">{stats.session_count}</div>
+            </div>
             <div>
               <span className="text-gray-600">Speed:</span>
-              <div className="font-mono">{status.speed}x</div>
+              <div className="font-mono">{formatPlaybackSpeed(status.speed)}</div>
             </div>
             <div>
               <span className="text-gray-600">Progress:</span>
@@ -1,28 +1,66 @@
 'use client';
 
-import { useParams } from 'next/navigation';
+import { useCallback } from 'react';
+import { usePathname, useParams, useRouter, useSearchParams } from 'next/navigation';
 import { DiffViewer } from '@/components/diff/DiffViewer';
+import { DiffPointPicker } from '@/components/diff/DiffPointPicker';
 import { ViewModeToggle } from '@/components/reader/ViewModeToggle';
 import { useDiff } from '@/hooks/useDiff';
+import { useNamedVersions } from '@/hooks/useNamedVersions';
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary';
 import { LoadingButton } from '@/components/ui/LoadingSpinner';
+import { SHARE_TOKEN_PARAM } from '@/lib/auth/document-access';
+import {
+  DEFAULT_FROM_POINT,
+  DEFAULT_TO_POINT,
+  formatDiffPoint,
+  parseDiffPoint,
+  type DiffPoint,
+} from '@/lib/diff/diff-points';
+
+/** Search parameters holding the two points (see `parseDiffPoint`) */
+const FROM_PARAM = 'from';
+const TO_PARAM = 'to';
 
 export default function DiffPage() {
   const params = useParams();
   const documentId = params.id as string;
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const shareToken = searchParams.get(SHARE_TOKEN_PARAM);
+  
+  const from = parseDiffPoint(searchParams.get(FROM_PARAM)) ?? DEFAULT_FROM_POINT;
+  const to = parseDiffPoint(searchParams.get(TO_PARAM)) ?? DEFAULT_TO_POINT;
+  
+  const { versions } = useNamedVersions({ documentId, shareToken });
   
   const {
-    firstVersion,
-    finalVersion,
+    fromVersion,
+    toVersion,
     diffResult,
+    events,
+    sessions,
     loading,
     error,
     refresh,
   } = useDiff({
     documentId,
+    shareToken,
+    from,
+    to,
+    versions,
     autoFetch: true,
   });
   
+  // Keep the points in the URL so a comparison can be shared
+  const handlePointsChange = useCallback((nextFrom: DiffPoint, nextTo: DiffPoint) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set(FROM_PARAM, formatDiffPoint(nextFrom));
+    params.set(TO_PARAM, formatDiffPoint(nextTo));
+    router.replace(`${pathname}?${params.toString()}`, { scroll: false });
+  }, [router, pathname, searchParams]);
+  
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Navigation */}
@@ -46,7 +84,7 @@ export default function DiffPage() {
       <main className="max-w-6xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
         {/* View Mode Toggle */}
         <div className="mb-8">
-          <ViewModeToggle documentId={documentId} />
+          <ViewModeToggle documentId={documentId} shareToken={shareToken} />
         </div>
         
         {/* Page Header */}
@@ -55,7 +93,8 @@ export default function DiffPage() {
             Document Comparison
           </h1>
           <p className="text-gray-600">
-            Compare the first draft with the final version to see how the document evolved.
+            Compare any two points in the document&apos;s history. By default, the first draft
+            is compared with the final version.
           </p>
           
           {/* Refresh Button */}
@@ -70,11 +109,24 @@ export default function DiffPage() {
           </div>
         </div>
         
+        {/* Point Picker */}
+        {events.length > 0 && (
+          <DiffPointPicker
+            events={events}
+            sessions={sessions}
+            from={from}
+            to={to}
+            versions={versions}
+            onChange={handlePointsChange}
+            className="mb-6"
+          />
+        )}
+        
         {/* Diff Viewer */}
         <ErrorBoundary>
           <DiffViewer
-            firstVersion={firstVersion}
-            finalVersion={finalVersion}
+            fromVersion={fromVersion}
+            toVersion={toVersion}
             diffResult={diffResult}
             loading={loading}
             error={error}
@@ -91,11 +143,11 @@ export default function DiffPage() {
             <div className="text-blue-800 text-sm space-y-2">
               <p>
                 <span className="inline-block w-3 h-3 bg-red-500 rounded mr-2"></span>
-                <strong>Red highlighting</strong> shows text that was removed from the first draft.
+                <strong>Red highlighting</strong> shows text that was removed after the earlier point.
               </p>
               <p>
                 <span className="inline-block w-3 h-3 bg-green-500 rounded mr-2"></span>
-                <strong>Green highlighting</strong> shows text that was added to create the final version.
+                <strong>Green highlighting</strong> shows text that was added by the later point.
               </p>
               <p>
                 <span className="inline-block w-3 h-3 bg-gray-300 rounded mr-2"></span>
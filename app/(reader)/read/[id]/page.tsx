@@ -2,14 +2,24 @@ import { notFound } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import { DocumentHeader } from '@/components/reader/DocumentHeader';
 import { DocumentContent } from '@/components/reader/DocumentContent';
+import { LiveDocumentContent } from '@/components/reader/LiveDocumentContent';
 import { ViewModeToggle } from '@/components/reader/ViewModeToggle';
+import { VersionList } from '@/components/reader/VersionList';
 import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { getLatestCheckpoint } from '@/lib/event-sourcing/checkpoints';
+import { fetchAllEvents, fetchEventPage } from '@/lib/event-sourcing/event-pages';
+import { listVersions } from '@/lib/event-sourcing/versions';
+import { canReadDocument } from '@/lib/auth/document-access';
 import type { Document, Profile, WritingEvent } from '@/types/supabase';
 
 interface ReadPageProps {
   params: Promise<{
     id: string;
   }>;
+  searchParams: Promise<{
+    token?: string;
+    live?: string;
+  }>;
 }
 
 /**
@@ -22,10 +32,14 @@ interface ReadPageProps {
  * - Displays document header, content, and view mode toggle
  * - Reconstructs final content from events via event sourcing
  * - No authentication required for public documents
+ * - Unlisted documents open with their share token (`?token=`)
+ * - Public documents can be watched live as they are written (`?live=1`)
+ * - Lists the author's named versions, linking to their diffs
  */
-export default async function ReadPage({ params }: ReadPageProps) {
+export default async function ReadPage({ params, searchParams }: ReadPageProps) {
   const { id } = await params;
-  const supabase = await createClient();
+  const { token: shareToken, live } = await searchParams;
+  const supabase = await createClient({ shareToken });
 
   // Fetch document (public or owned by user)
   const { data: document, error: docError } = await supabase
@@ -43,7 +57,7 @@ export default async function ReadPage({ params }: ReadPageProps) {
     data: { user },
   } = await supabase.auth.getUser();
 
-  const hasAccess = document.visibility === 'public' || document.user_id === user?.id;
+  const hasAccess = canReadDocument(document, user?.id, shareToken);
 
   if (!hasAccess) {
     notFound();
@@ -56,26 +70,68 @@ export default async function ReadPage({ params }: ReadPageProps) {
     .eq('id', document.user_id)
     .single();
 
-  // Fetch writing events to reconstruct content
-  const { data: events } = await supabase
-    .from('writing_events')
-    .select('*')
-    .eq('document_id', id)
-    .order('timestamp', { ascending: true });
+  // Start from the newest checkpoint and fetch only the events after it
+  const checkpoint = await getLatestCheckpoint(supabase, id).catch(() => null);
+  const checkpointEventCount = checkpoint?.event_count ?? 0;
+
+  const events = await fetchAllEvents(supabase, id, {
+    offset: checkpointEventCount,
+    limit: 1000,
+  }).catch(() => [] as WritingEvent[]);
 
-  // Reconstruct final content from events
-  let finalContent = '';
-  let eventCount = 0;
+  // The first event is needed for the writing duration even when a
+  // checkpoint has already folded it in (for a fork, it was written in
+  // the parent)
+  const firstEvents = checkpoint
+    ? await fetchEventPage(supabase, id, { offset: 0, limit: 1 })
+        .then((page) => page.events)
+        .catch(() => [] as WritingEvent[])
+    : events.slice(0, 1);
+
+  // Reconstruct final content from checkpoint + events
+  let finalContent = checkpoint?.full_content ?? '';
+  let eventCount = checkpointEventCount;
   let writingDuration: string | undefined;
 
-  if (events && events.length > 0) {
-    const replayResult = EventSourcingEngine.replay(events as WritingEvent[]);
+  if (events.length > 0) {
+    const replayResult = EventSourcingEngine.replayFromCheckpoint(
+      events,
+      checkpoint
+    );
     finalContent = replayResult.content;
-    eventCount = events.length;
+    eventCount = checkpointEventCount + events.length;
+  }
+
+  // With nothing written after the checkpoint, the last event is the one
+  // it ends on
+  const lastEvents =
+    checkpoint && events.length === 0
+      ? await fetchEventPage(supabase, id, { offset: checkpointEventCount - 1, limit: 1 })
+          .then((page) => page.events)
+          .catch(() => [] as WritingEvent[])
+      : events.slice(-1);
 
+  const firstEvent = firstEvents[0];
+  const lastEvent = lastEvents[0];
+
+  // Versions are extras: the page still renders without them
+  const versions = await listVersions(supabase, id).catch(() => []);
+
+  // The parent of a fork is only named if this reader may see it
+  const { data: parent } = document.forked_from
+    ? await supabase
+        .from('documents')
+        .select('id, title, visibility')
+        .eq('id', document.forked_from)
+        .maybeSingle()
+    : { data: null };
+
+  // Realtime delivers public events only (it can't see share tokens)
+  const canWatchLive = document.visibility === 'public';
+  const watchLive = canWatchLive && live === '1';
+
+  if (firstEvent && lastEvent) {
     // Calculate writing duration
-    const firstEvent = events[0];
-    const lastEvent = events[events.length - 1];
     const durationMs = lastEvent.timestamp - firstEvent.timestamp;
     const durationMinutes = Math.floor(durationMs / 60000);
     const hours = Math.floor(durationMinutes / 60);
@@ -112,8 +168,16 @@ export default async function ReadPage({ params }: ReadPageProps) {
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-6 py-12">
         {/* View Mode Toggle */}
-        <div className="mb-8">
-          <ViewModeToggle documentId={id} />
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+          <ViewModeToggle documentId={id} shareToken={shareToken} />
+          {canWatchLive && (
+            <a
+              href={watchLive ? `/read/${id}` : `/read/${id}?live=1`}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              {watchLive ? 'Stop watching' : 'Watch live'}
+            </a>
+          )}
         </div>
 
         {/* Document Header */}
@@ -124,8 +188,37 @@ export default async function ReadPage({ params }: ReadPageProps) {
           writingDuration={writingDuration}
         />
 
+        {/* Fork Origin */}
+        {document.forked_from && (
+          <p className="mb-8 text-sm text-gray-500">
+            ⑂ Forked{' '}
+            {parent?.visibility === 'public' ? (
+              <>
+                from{' '}
+                <a href={`/read/${parent.id}`} className="text-blue-600 hover:text-blue-700">
+                  {parent.title}
+                </a>{' '}
+              </>
+            ) : parent ? (
+              <>from {parent.title} </>
+            ) : null}
+            after {(document.forked_event_count ?? 0).toLocaleString()} events
+          </p>
+        )}
+
+        {/* Named Versions */}
+        <VersionList documentId={id} versions={versions} shareToken={shareToken} />
+
         {/* Document Content */}
-        <DocumentContent content={finalContent} />
+        {watchLive ? (
+          <LiveDocumentContent
+            documentId={id}
+            initialContent={finalContent}
+            initialSeq={lastEvent?.seq ?? document.event_seq}
+          />
+        ) : (
+          <DocumentContent content={finalContent} />
+        )}
       </main>
 
       {/* Footer */}
@@ -141,19 +234,23 @@ export default async function ReadPage({ params }: ReadPageProps) {
 /**
  * Metadata for SEO
  */
-export async function generateMetadata({ params }: ReadPageProps) {
+export async function generateMetadata({ params, searchParams }: ReadPageProps) {
   const { id } = await params;
-  const supabase = await createClient();
+  const { token: shareToken } = await searchParams;
+  const supabase = await createClient({ shareToken });
 
+  // RLS only returns unlisted documents when the share token matches
   const { data: document } = await supabase
     .from('documents')
-    .select('title')
+    .select('title, visibility')
     .eq('id', id)
-    .eq('visibility', 'public')
+    .in('visibility', ['public', 'unlisted'])
     .single();
 
   return {
     title: document?.title || 'Document',
     description: `Read "${document?.title}" on Writing Timeline Platform`,
+    // Unlisted documents must stay out of search indexes
+    robots: document?.visibility === 'unlisted' ? { index: false, follow: false } : undefined,
   };
 }
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SHARE_TOKEN_PARAM, canReadDocument } from '@/lib/auth/document-access';
+import {
+  appendOnlyETag,
+  eventHistoryCacheControl,
+  isNotModified,
+  withCacheHeaders,
+} from '@/lib/utils/http-cache';
+import { createClient } from '@/lib/supabase/server';
+import { listCheckpoints } from '@/lib/event-sourcing/checkpoints';
+
+/**
+ * GET /api/documents/[id]/checkpoints
+ *
+ * Fetch content checkpoints for a document
+ *
+ * Checkpoints are created by the server every 1000 events and let
+ * clients rebuild content without replaying the full history.
+ * No login is needed for public documents.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const shareToken = request.nextUrl.searchParams.get(SHARE_TOKEN_PARAM);
+    const supabase = await createClient({ shareToken });
+
+    // Get current user (may be null: public and unlisted documents are
+    // readable anonymously, and RLS hides everything else)
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Check document access (owner, public, or unlisted with share token)
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, user_id, visibility')
+      .eq('id', documentId)
+      .single();
+
+    if (docError || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = canReadDocument(document, user?.id, shareToken);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not have access to this document' },
+        { status: 403 }
+      );
+    }
+
+    const checkpoints = await listCheckpoints(supabase, documentId);
+
+    // Checkpoints are immutable, but new ones are appended every 1000 events
+    const cacheControl = eventHistoryCacheControl({
+      visibility: document.visibility,
+      complete: false,
+    });
+    const etag = appendOnlyETag('checkpoints', checkpoints);
+
+    if (isNotModified(request, etag)) {
+      return withCacheHeaders(new NextResponse(null, { status: 304 }), cacheControl, etag);
+    }
+
+    return withCacheHeaders(NextResponse.json({ checkpoints }), cacheControl, etag);
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@/lib/supabase/server';
-import type { EventBatchRequest, EventBatchResponse } from '@/types/events';
+import { SHARE_TOKEN_PARAM, canReadDocument } from '@/lib/auth/document-access';
+import {
+  appendOnlyETag,
+  eventHistoryCacheControl,
+  isNotModified,
+  withCacheHeaders,
+} from '@/lib/utils/http-cache';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import {
+  createDueCheckpoints,
+  getLatestCheckpoint,
+} from '@/lib/event-sourcing/checkpoints';
+import {
+  decodeEventCursor,
+  encodeEventCursor,
+  fetchEventPage,
+  fetchLineage,
+  ownHistory,
+  type EventPage,
+  type EventPageQuery,
+} from '@/lib/event-sourcing/event-pages';
+import { appendEvents, type AppendResult } from '@/lib/event-sourcing/event-append';
+import type {
+  Checkpoint,
+  EventBatchRequest,
+  EventBatchResponse,
+  EventRejection,
+  EventResult,
+  WritingEvent,
+} from '@/types/events';
 import type { WritingEventInsert } from '@/types/supabase';
 
+/** Largest page a single JSON request may ask for */
+const MAX_PAGE_SIZE = 5000;
+
+/** Page size used internally when streaming NDJSON */
+const STREAM_PAGE_SIZE = 1000;
+
 /**
  * POST /api/documents/[id]/events
  *
  * Batch upload writing events for a document
  *
+ * Idempotent: events are keyed by their client-generated `id`, so
+ * retrying a batch after a timeout reports the stored events as
+ * `duplicate` instead of inserting them again.
+ *
  * Body: EventBatchRequest
  * {
  *   document_id: string
  *   events: WritingEventInsert[]
+ *   base_seq?: number (seq the events were recorded against)
  * }
+ *
+ * Offline edits from several devices: a batch whose base_seq is older
+ * than the latest event is rebased (operational transform) over the
+ * events stored since, and the response carries those events rebased
+ * onto the batch (`concurrent_events`) so the client can catch up.
+ *
+ * Consistency: the batch is replayed against the stored text it was
+ * recorded against. An event whose position or `content_before` doesn't
+ * match is rejected with a structured reason (`rejection.code`), along
+ * with every event after it; the client should then resync.
+ *
+ * Response: EventBatchResponse with one `results` entry per event
  */
 export async function POST(
   request: NextRequest,
@@ -71,85 +122,125 @@ export async function POST(
       );
     }
 
-    // Validate each event
+    // Validate each event, keeping one result per submitted event
+    const results: EventResult[] = [];
     const validEvents: WritingEventInsert[] = [];
-    const failedEvents: string[] = [];
+    const seenIds = new Set<string>();
 
     for (const event of body.events) {
-      // Basic validation
-      if (
-        !event.document_id ||
-        !event.session_id ||
-        event.timestamp === undefined ||
-        !event.event_type ||
-        event.position === undefined ||
-        event.position < 0
-      ) {
-        console.error('Invalid event:', event);
-        failedEvents.push(event.id || 'unknown');
-        continue;
-      }
-
-      // Type-specific validation
-      if (event.event_type === 'insert' && !event.content) {
-        console.error('Insert event missing content:', event);
-        failedEvents.push(event.id || 'unknown');
-        continue;
-      }
-
-      if (event.event_type === 'delete' && !event.content_before) {
-        console.error('Delete event missing content_before:', event);
-        failedEvents.push(event.id || 'unknown');
+      const rejection = validateEvent(event, documentId);
+
+      if (rejection) {
+        console.error(`Rejected event (${rejection.message}):`, event);
+        results.push({
+          id: event.id || 'unknown',
+          status: 'rejected',
+          reason: rejection.message,
+          rejection,
+        });
         continue;
       }
 
-      if (
-        event.event_type === 'replace' &&
-        (!event.content || !event.content_before)
-      ) {
-        console.error('Replace event missing content or content_before:', event);
-        failedEvents.push(event.id || 'unknown');
+      // A batch can repeat an event if the client re-queued it
+      if (seenIds.has(event.id!)) {
+        results.push({ id: event.id!, status: 'duplicate' });
         continue;
       }
 
-      validEvents.push(event);
+      seenIds.add(event.id!);
+      results.push({ id: event.id!, status: 'inserted' });
+      // Only the restore endpoint marks events as restores
+      validEvents.push({ ...event, restored_to: null });
     }
 
+    let failedEvents = results
+      .filter((result) => result.status === 'rejected')
+      .map((result) => result.id);
+
     if (validEvents.length === 0) {
       return NextResponse.json(
         {
           success: false,
           error: 'No valid events to insert',
           inserted_count: 0,
+          results,
           failed_events: failedEvents,
         } as EventBatchResponse,
         { status: 400 }
       );
     }
 
-    // Insert events into database
-    const { data, error } = await supabase
-      .from('writing_events')
-      .insert(validEvents)
-      .select();
-
-    if (error) {
+    const baseSeq =
+      typeof body.base_seq === 'number' && Number.isSafeInteger(body.base_seq) && body.base_seq >= 0
+        ? body.base_seq
+        : null;
+
+    // Insert events in a single statement, skipping IDs that already
+    // exist: a retried batch stores nothing twice, and the batch either
+    // lands completely or not at all. The database numbers new rows
+    // (seq) in the order they appear in the batch. Batches recorded
+    // against an older seq are first rebased over the newer events.
+    let appended: AppendResult;
+    try {
+      appended = await appendEvents(
+        supabase,
+        documentId,
+        validEvents as WritingEvent[],
+        baseSeq
+      );
+    } catch (error) {
       console.error('Database error:', error);
       return NextResponse.json(
         {
           success: false,
           error: 'Failed to insert events',
           inserted_count: 0,
-          failed_events: validEvents.map((e) => e.id || 'unknown'),
         } as EventBatchResponse,
         { status: 500 }
       );
     }
 
+    // Rows that weren't stored either didn't apply to the stored text,
+    // already existed, or cancelled out
+    const insertedIds = new Set(appended.inserted.map((row) => row.id));
+    for (const result of results) {
+      if (result.status !== 'inserted' || insertedIds.has(result.id)) continue;
+
+      const rejection = appended.rejected.get(result.id);
+      if (rejection) {
+        result.status = 'rejected';
+        result.reason = rejection.message;
+        result.rejection = rejection;
+      } else {
+        result.status = appended.duplicateIds.has(result.id) ? 'duplicate' : 'absorbed';
+      }
+    }
+
+    if (appended.rejected.size > 0) {
+      console.error('Rejected events that do not apply to the stored history:', [
+        ...appended.rejected.entries(),
+      ]);
+      failedEvents = [...failedEvents, ...appended.rejected.keys()];
+    }
+
+    // Snapshot content at every 1000-event boundary the batch crossed.
+    // Checkpoints are an optimization, so failures never fail the upload.
+    if (appended.inserted.length > 0) {
+      try {
+        await createDueCheckpoints(createAdminClient(), documentId);
+      } catch (checkpointError) {
+        console.error('Checkpoint creation failed:', checkpointError);
+      }
+    }
+
     const response: EventBatchResponse = {
       success: true,
-      inserted_count: data.length,
+      inserted_count: appended.inserted.length,
+      duplicate_count: results.filter((result) => result.status === 'duplicate').length,
+      results,
       failed_events: failedEvents.length > 0 ? failedEvents : undefined,
+      head_seq: appended.headSeq ?? undefined,
+      concurrent_events: baseSeq !== null ? appended.concurrent : undefined,
     };
 
     return NextResponse.json(response);
@@ -166,15 +257,85 @@ export async function POST(
   }
 }
 
+/**
+ * Check a submitted event
+ *
+ * Only the fields are checked here; whether the event applies to the
+ * stored text is checked when appending (see `appendEvents`).
+ *
+ * @param event - Event from the request body
+ * @param documentId - Document the batch was posted to
+ * @returns Rejection, or null if the event is valid
+ */
+function validateEvent(event: WritingEventInsert, documentId: string): EventRejection | null {
+  const invalid = (message: string): EventRejection => ({ code: 'invalid_event', message });
+
+  if (!event.id) {
+    return invalid('Missing id');
+  }
+
+  if (
+    !event.document_id ||
+    !event.session_id ||
+    event.timestamp === undefined ||
+    !event.event_type ||
+    event.position === undefined ||
+    event.position < 0
+  ) {
+    return invalid('Missing or invalid fields');
+  }
+
+  if (event.document_id !== documentId) {
+    return { code: 'wrong_document', message: 'Event belongs to a different document' };
+  }
+
+  // Type-specific validation
+  if (event.event_type === 'insert' && !event.content) {
+    return invalid('Insert event missing content');
+  }
+
+  if (event.event_type === 'delete' && !event.content_before) {
+    return invalid('Delete event missing content_before');
+  }
+
+  if (
+    event.event_type === 'replace' &&
+    (!event.content || !event.content_before)
+  ) {
+    return invalid('Replace event missing content or content_before');
+  }
+
+  return null;
+}
+
 /**
  * GET /api/documents/[id]/events
  *
- * Fetch writing events for a document
+ * Fetch writing events for a document, ordered by seq
+ *
+ * No login is needed for public documents (or unlisted ones with a share
+ * token). Responses carry Cache-Control and ETag headers.
  *
  * Query params:
- * - limit: number (default: 1000, max: 5000)
- * - offset: number (default: 0)
- * - since_timestamp: number (optional, fetch events after this timestamp)
+ * - limit: number (page size, default: 1000, max: 5000)
+ * - cursor: string (optional, `next_cursor` from the previous page)
+ * - after_seq: number (optional, start after this seq, e.g. to catch up
+ *   a live view; ignored when cursor is given)
+ * - offset: number (default: 0, legacy; ignored when cursor is given)
+ * - since_timestamp: number (optional, fetch events after this timestamp;
+ *   not with offset or from_checkpoint, which count unfiltered events)
+ * - token: string (share token, required for unlisted documents)
+ * - from_checkpoint: boolean (optional, start after the latest checkpoint
+ *   and include it in the response as `checkpoint`)
+ * - format: 'ndjson' (optional, stream the whole history as NDJSON)
+ *
+ * JSON response: { events, next_cursor, checkpoint? }
+ * - next_cursor is null on the last page
+ *
+ * NDJSON response: one object per line
+ * - { "type": "checkpoint", "checkpoint": Checkpoint | null } (from_checkpoint only)
+ * - { "type": "event", "event": WritingEvent } (in order)
+ * - { "type": "end", "count": number } or { "type": "error", "error": string }
  */
 export async function GET(
   request: NextRequest,
@@ -182,22 +343,19 @@ export async function GET(
 ) {
   try {
     const { id: documentId } = await params;
-    const supabase = await createClient();
+    const shareToken = request.nextUrl.searchParams.get(SHARE_TOKEN_PARAM);
+    const supabase = await createClient({ shareToken });
 
-    // Check authentication
+    // Get current user (may be null: public and unlisted documents are
+    // readable anonymously, and RLS hides everything else)
     const {
       data: { user },
-      error: authError,
     } = await supabase.auth.getUser();
 
-    if (authError || !user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Check document access (owner or public)
+    // Check document access (owner, public, or unlisted with share token)
     const { data: document, error: docError } = await supabase
       .from('documents')
-      .select('id, user_id, visibility')
+      .select('id, user_id, visibility, forked_from')
       .eq('id', documentId)
       .single();
 
@@ -209,7 +367,7 @@ export async function GET(
     }
 
     // Check if user has access
-    const hasAccess = document.user_id === user.id || document.visibility === 'public';
+    const hasAccess = canReadDocument(document, user?.id, shareToken);
     if (!hasAccess) {
       return NextResponse.json(
         { error: 'Forbidden: You do not have access to this document' },
@@ -220,30 +378,89 @@ export async function GET(
     // Parse query params
     const { searchParams } = new URL(request.url);
     const limit = Math.min(
-      parseInt(searchParams.get('limit') || '1000', 10),
-      5000
+      Math.max(parseInt(searchParams.get('limit') || '1000', 10) || 1000, 1),
+      MAX_PAGE_SIZE
     );
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
-    const sinceTimestamp = searchParams.get('since_timestamp');
-
-    // Build query
-    let query = supabase
-      .from('writing_events')
-      .select('*')
-      .eq('document_id', documentId)
-      .order('timestamp', { ascending: true })
-      .range(offset, offset + limit - 1);
-
-    if (sinceTimestamp) {
-      const timestamp = parseInt(sinceTimestamp, 10);
-      if (!isNaN(timestamp)) {
-        query = query.gt('timestamp', timestamp);
+    const offset = parseInt(searchParams.get('offset') || '0', 10) || 0;
+    const sinceParam = searchParams.get('since_timestamp');
+    const sinceTimestamp = sinceParam ? parseInt(sinceParam, 10) : NaN;
+    const fromCheckpoint = searchParams.get('from_checkpoint') === 'true';
+    const stream = searchParams.get('format') === 'ndjson';
+
+    const cursorParam = searchParams.get('cursor');
+    const decodedCursor = cursorParam ? decodeEventCursor(cursorParam) : null;
+    if (cursorParam && !decodedCursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const afterSeqParam = searchParams.get('after_seq');
+    const afterSeq = afterSeqParam !== null ? Number(afterSeqParam) : null;
+    if (afterSeq !== null && !(Number.isSafeInteger(afterSeq) && afterSeq >= 0)) {
+      return NextResponse.json({ error: 'Invalid after_seq' }, { status: 400 });
+    }
+
+    const cursor = decodedCursor ?? (afterSeq !== null ? { seq: afterSeq } : null);
+
+    // An offset into the filtered events wouldn't line up with a checkpoint
+    // or with pages fetched without the filter
+    if (!isNaN(sinceTimestamp) && !cursor && (offset > 0 || fromCheckpoint)) {
+      return NextResponse.json(
+        { error: 'since_timestamp cannot be combined with offset or from_checkpoint' },
+        { status: 400 }
+      );
+    }
+
+    // Skip events already folded into the latest checkpoint. Only the
+    // first page needs this: later pages continue from their cursor.
+    let checkpoint: Checkpoint | null = null;
+    if (fromCheckpoint && !cursor) {
+      try {
+        checkpoint = await getLatestCheckpoint(supabase, documentId);
+      } catch (checkpointError) {
+        console.error('Database error:', checkpointError);
+        return NextResponse.json(
+          { error: 'Failed to fetch checkpoint' },
+          { status: 500 }
+        );
+      }
+    }
+
+    // A fork's history starts in the documents it was forked from
+    let lineage = ownHistory(documentId);
+    if (document.forked_from) {
+      try {
+        lineage = await fetchLineage(supabase, documentId);
+      } catch (lineageError) {
+        console.error('Database error:', lineageError);
+        return NextResponse.json(
+          { error: 'Failed to fetch events' },
+          { status: 500 }
+        );
       }
     }
 
-    const { data: events, error } = await query;
+    const pageQuery: EventPageQuery = {
+      cursor,
+      offset: offset + (checkpoint?.event_count ?? 0),
+      limit,
+      sinceTimestamp: isNaN(sinceTimestamp) ? null : sinceTimestamp,
+      lineage,
+    };
+
+    if (stream) {
+      return streamEvents(supabase, documentId, pageQuery, {
+        checkpoint: fromCheckpoint ? checkpoint : undefined,
+        cacheControl: eventHistoryCacheControl({
+          visibility: document.visibility,
+          complete: false,
+        }),
+      });
+    }
 
-    if (error) {
+    let page: EventPage;
+    try {
+      page = await fetchEventPage(supabase, documentId, pageQuery);
+    } catch (error) {
       console.error('Database error:', error);
       return NextResponse.json(
         { error: 'Failed to fetch events' },
@@ -251,7 +468,29 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ events });
+    const { events, nextCursor } = page;
+
+    // Event history is immutable, so public pages can be cached by CDNs.
+    // A full page is followed by more events and only the tail keeps growing.
+    const cacheControl = eventHistoryCacheControl({
+      visibility: document.visibility,
+      complete: nextCursor !== null,
+    });
+    const etag = appendOnlyETag(
+      `${request.nextUrl.search}:${checkpoint?.event_count ?? 0}`,
+      events
+    );
+
+    if (isNotModified(request, etag)) {
+      return withCacheHeaders(new NextResponse(null, { status: 304 }), cacheControl, etag);
+    }
+
+    const body = {
+      events,
+      next_cursor: nextCursor ? encodeEventCursor(nextCursor) : null,
+      ...(fromCheckpoint && { checkpoint }),
+    };
+    return withCacheHeaders(NextResponse.json(body), cacheControl, etag);
   } catch (error) {
     console.error('Unexpected error:', error);
     return NextResponse.json(
@@ -260,3 +499,60 @@ export async function GET(
     );
   }
 }
+
+/**
+ * Stream a document's history as NDJSON, page by page
+ *
+ * Pages are fetched with keyset cursors as the client reads, so the
+ * first events reach the client before the last page is queried.
+ */
+function streamEvents(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  documentId: string,
+  firstPage: EventPageQuery,
+  options: { checkpoint?: Checkpoint | null; cacheControl: string }
+): NextResponse {
+  const encoder = new TextEncoder();
+  const line = (value: unknown) => encoder.encode(`${JSON.stringify(value)}\n`);
+
+  let query: EventPageQuery | null = { ...firstPage, limit: STREAM_PAGE_SIZE };
+  let count = 0;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (options.checkpoint !== undefined) {
+        controller.enqueue(line({ type: 'checkpoint', checkpoint: options.checkpoint }));
+      }
+    },
+    async pull(controller) {
+      if (!query) return;
+
+      try {
+        const { events, nextCursor } = await fetchEventPage(supabase, documentId, query);
+
+        for (const event of events) {
+          controller.enqueue(line({ type: 'event', event }));
+        }
+        count += events.length;
+
+        query = nextCursor ? { ...query, cursor: nextCursor } : null;
+        if (!query) {
+          controller.enqueue(line({ type: 'end', count }));
+          controller.close();
+        }
+      } catch (error) {
+        console.error('Database error:', error);
+        controller.enqueue(line({ type: 'error', error: 'Failed to fetch events' }));
+        controller.close();
+        query = null;
+      }
+    },
+  });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': options.cacheControl,
+    },
+  });
+}
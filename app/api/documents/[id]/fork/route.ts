@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { createDueCheckpoints } from '@/lib/event-sourcing/checkpoints';
+import { forkTitle } from '@/lib/event-sourcing/forks';
+import { Validators } from '@/lib/utils/error-handler';
+import type { DocumentInsert } from '@/types/supabase';
+
+/**
+ * POST /api/documents/[id]/fork
+ *
+ * Fork a document: the new document shares this one's history up to a
+ * chosen event and continues independently from there
+ *
+ * Nothing is copied: the fork points at its parent and the number of
+ * events it inherits, the database records which ancestors those events
+ * are stored with (`document_inheritance`, migration 015), and reads of
+ * its history include them.
+ *
+ * Requires authentication and ownership.
+ *
+ * Body:
+ * {
+ *   event_count?: number  // events to inherit (default: whole history)
+ *   title?: string        // default: parent title + " (fork)"
+ * }
+ *
+ * Response: 201 { document }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check document ownership
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, user_id, title, metadata, event_seq')
+      .eq('id', documentId)
+      .single();
+
+    if (docError || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (document.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not own this document' },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json().catch(() => ({}));
+    const eventCount = body.event_count ?? document.event_seq;
+    const title = body.title ?? forkTitle(document.title);
+
+    if (
+      !Number.isSafeInteger(eventCount) ||
+      eventCount < 0 ||
+      eventCount > document.event_seq
+    ) {
+      return NextResponse.json(
+        { error: `event_count must be between 0 and ${document.event_seq}` },
+        { status: 400 }
+      );
+    }
+
+    const titleValidation =
+      typeof title === 'string'
+        ? Validators.documentTitle(title)
+        : { valid: false, message: 'Title must be a string' };
+    if (!titleValidation.valid) {
+      return NextResponse.json(
+        { error: titleValidation.message },
+        { status: 400 }
+      );
+    }
+
+    // Forks start as private drafts, whatever the parent's status
+    const fork: DocumentInsert = {
+      user_id: user.id,
+      title: title.trim(),
+      metadata: document.metadata,
+      forked_from: documentId,
+      forked_event_count: eventCount,
+    };
+
+    const { data: created, error: insertError } = await supabase
+      .from('documents')
+      .insert(fork)
+      .select()
+      .single();
+
+    if (insertError || !created) {
+      console.error('Database error:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to fork document' },
+        { status: 500 }
+      );
+    }
+
+    // Checkpoints of the inherited history keep the fork's replays short.
+    // They are an optimization, so failures never fail the fork.
+    try {
+      await createDueCheckpoints(createAdminClient(), created.id);
+    } catch (checkpointError) {
+      console.error('Checkpoint creation failed:', checkpointError);
+    }
+
+    return NextResponse.json({ document: created }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { createDueCheckpoints } from '@/lib/event-sourcing/checkpoints';
+import { HEAD_MOVED } from '@/lib/event-sourcing/event-append';
+import { fetchAllEvents } from '@/lib/event-sourcing/event-pages';
+import { planRestore } from '@/lib/event-sourcing/restore';
+import type { Database, Json } from '@/types/supabase';
+
+/**
+ * POST /api/documents/[id]/restore
+ *
+ * Restore a document to an earlier event
+ *
+ * Events are immutable, so nothing is rolled back: the edits that bring
+ * the text back to the event are appended, marked with `restored_to`.
+ *
+ * Requires authentication and ownership.
+ *
+ * Body:
+ * {
+ *   seq: number       // last event to keep (0 restores the blank page)
+ *   base_seq: number  // latest seq the caller has seen
+ * }
+ *
+ * The restore is computed against `base_seq` and stored only if nothing
+ * was appended since (409 otherwise), so the stored text is exactly the
+ * restored one.
+ *
+ * Response: { inserted_count, head_seq }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check document ownership
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, user_id')
+      .eq('id', documentId)
+      .single();
+
+    if (docError || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (document.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not own this document' },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const { seq, base_seq: baseSeq } = await request.json();
+
+    if (
+      !Number.isSafeInteger(seq) ||
+      !Number.isSafeInteger(baseSeq) ||
+      seq < 0 ||
+      seq > baseSeq
+    ) {
+      return NextResponse.json(
+        { error: 'seq and base_seq must be integers with 0 <= seq <= base_seq' },
+        { status: 400 }
+      );
+    }
+
+    let restored: Restored;
+    try {
+      restored = await restoreToEvent(supabase, documentId, seq, baseSeq);
+    } catch (error) {
+      console.error('Restore failed:', error);
+      return NextResponse.json(
+        { error: 'Failed to restore document' },
+        { status: 500 }
+      );
+    }
+
+    if (restored.conflict) {
+      return NextResponse.json(
+        { error: 'The document changed since it was loaded; reload and try again' },
+        { status: 409 }
+      );
+    }
+
+    // Checkpoints are an optimization, so failures never fail the restore
+    if (restored.inserted.length > 0) {
+      try {
+        await createDueCheckpoints(createAdminClient(), documentId);
+      } catch (checkpointError) {
+        console.error('Checkpoint creation failed:', checkpointError);
+      }
+    }
+
+    return NextResponse.json({
+      inserted_count: restored.inserted.length,
+      head_seq: restored.headSeq,
+    });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Outcome of a restore
+ */
+interface Restored {
+  /** The history moved past `base_seq`; nothing was stored */
+  conflict: boolean;
+  /** Events appended, with their assigned seq */
+  inserted: { id: string; seq: number }[];
+  /** Latest seq once the restore is stored */
+  headSeq: number;
+}
+
+/**
+ * Append the events that bring a document back to the event with `seq`
+ *
+ * The events are stored only on top of `baseSeq`: unlike edits, a restore
+ * is never rebased over concurrent events, which would store a text
+ * other than the one restored.
+ */
+async function restoreToEvent(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  seq: number,
+  baseSeq: number
+): Promise<Restored> {
+  const history = await fetchAllEvents(supabase, documentId, { offset: 0, limit: 1000 });
+  const headSeq = history[history.length - 1]?.seq ?? 0;
+
+  if (headSeq !== baseSeq) {
+    return { conflict: true, inserted: [], headSeq };
+  }
+
+  const plan = planRestore(history, seq, {
+    session_id: crypto.randomUUID(),
+    timestamp: Date.now(),
+  });
+
+  if (plan.events.length === 0) {
+    return { conflict: false, inserted: [], headSeq };
+  }
+
+  const { data, error } = await supabase.rpc('append_events', {
+    p_document_id: documentId,
+    p_expected_seq: headSeq,
+    p_events: plan.events as unknown as Json,
+  });
+
+  if (error?.code === HEAD_MOVED) {
+    return { conflict: true, inserted: [], headSeq };
+  }
+  if (error) {
+    throw error;
+  }
+
+  const inserted = data ?? [];
+  return {
+    conflict: false,
+    inserted,
+    headSeq: inserted[inserted.length - 1]?.seq ?? headSeq,
+  };
+}
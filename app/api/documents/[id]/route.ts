@@ -10,15 +10,24 @@ import {
   Validators,
   Logger
 } from '@/lib/utils/error-handler';
+import {
+  SHARE_TOKEN_PARAM,
+  canReadDocument,
+  fetchShareTokens,
+} from '@/lib/auth/document-access';
 
 /**
  * GET /api/documents/[id]
  *
  * Fetch a single document by ID
  *
+ * Query params:
+ * - token: string (share token, required for unlisted documents)
+ *
  * Access control:
  * - Owner can access any of their documents
  * - Anyone can access public documents (visibility = 'public')
+ * - Unlisted documents require a matching share token
  * - Returns 404 for private documents owned by others
  */
 export async function GET(
@@ -27,7 +36,8 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const supabase = await createClient();
+    const shareToken = request.nextUrl.searchParams.get(SHARE_TOKEN_PARAM);
+    const supabase = await createClient({ shareToken });
 
     // Get current user (may be null for unauthenticated requests)
     const {
@@ -48,8 +58,8 @@ export async function GET(
       );
     }
 
-    // Check access: owner or public visibility
-    const hasAccess = document.user_id === user?.id || document.visibility === 'public';
+    // Check access: owner, public visibility, or unlisted with share token
+    const hasAccess = canReadDocument(document, user?.id, shareToken);
 
     if (!hasAccess) {
       return NextResponse.json(
@@ -58,6 +68,14 @@ export async function GET(
       );
     }
 
+    // Only owners see the share token
+    if (user && document.user_id === user.id) {
+      const shareTokens = await fetchShareTokens(supabase, [id]);
+      return NextResponse.json({
+        document: { ...document, share_token: shareTokens.get(id) ?? null },
+      });
+    }
+
     return NextResponse.json({ document });
   } catch (error) {
     console.error('Unexpected error:', error);
@@ -209,7 +227,8 @@ export async function PATCH(
  *
  * Delete a document and all its events (CASCADE)
  *
- * Requires authentication and ownership.
+ * Requires authentication and ownership. Documents that have been forked
+ * can't be deleted (409): their forks share the events.
  */
 export async function DELETE(
   request: NextRequest,
@@ -253,6 +272,14 @@ export async function DELETE(
     // Delete document (CASCADE will delete events and checkpoints)
     const { error } = await supabase.from('documents').delete().eq('id', id);
 
+    // Forks read their inherited history from this document
+    if (error?.code === '23503') {
+      return NextResponse.json(
+        { error: 'This document has forks; delete them first' },
+        { status: 409 }
+      );
+    }
+
     if (error) {
       console.error('Database error:', error);
       return NextResponse.json(
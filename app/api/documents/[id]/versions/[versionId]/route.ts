@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { validateVersionName } from '@/lib/event-sourcing/versions';
+
+type RouteParams = { params: Promise<{ id: string; versionId: string }> };
+
+/**
+ * Check that the current user owns the document
+ *
+ * @returns Supabase client, or the error response to send
+ */
+async function authorizeOwner(documentId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: document, error: docError } = await supabase
+    .from('documents')
+    .select('id, user_id')
+    .eq('id', documentId)
+    .single();
+
+  if (docError || !document) {
+    return {
+      error: NextResponse.json({ error: 'Document not found' }, { status: 404 }),
+    };
+  }
+
+  if (document.user_id !== user.id) {
+    return {
+      error: NextResponse.json(
+        { error: 'Forbidden: You do not own this document' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { supabase };
+}
+
+/**
+ * PATCH /api/documents/[id]/versions/[versionId]
+ *
+ * Rename a version
+ *
+ * Requires authentication and ownership. The tagged point can't be
+ * changed: delete the version and tag a new one instead.
+ *
+ * Body:
+ * {
+ *   name: string
+ * }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: documentId, versionId } = await params;
+    const { supabase, error: accessError } = await authorizeOwner(documentId);
+    if (accessError) return accessError;
+
+    const { name } = await request.json();
+
+    const nameError = validateVersionName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('document_versions')
+      .update({ name: name.trim() })
+      .eq('id', versionId)
+      .eq('document_id', documentId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json(
+        { error: 'Failed to update version' },
+        { status: 500 }
+      );
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version: data });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/versions/[versionId]
+ *
+ * Remove a version (the history itself is untouched)
+ *
+ * Requires authentication and ownership.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: documentId, versionId } = await params;
+    const { supabase, error: accessError } = await authorizeOwner(documentId);
+    if (accessError) return accessError;
+
+    const { error } = await supabase
+      .from('document_versions')
+      .delete()
+      .eq('id', versionId)
+      .eq('document_id', documentId);
+
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json(
+        { error: 'Failed to delete version' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SHARE_TOKEN_PARAM, canReadDocument } from '@/lib/auth/document-access';
+import { createClient } from '@/lib/supabase/server';
+import { listVersions, validateVersionName } from '@/lib/event-sourcing/versions';
+
+/**
+ * GET /api/documents/[id]/versions
+ *
+ * Fetch the named versions (milestones) of a document
+ *
+ * No login is needed for public documents; unlisted documents require
+ * the share token.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const shareToken = request.nextUrl.searchParams.get(SHARE_TOKEN_PARAM);
+    const supabase = await createClient({ shareToken });
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    // Check document access (owner, public, or unlisted with share token)
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, user_id, visibility')
+      .eq('id', documentId)
+      .single();
+
+    if (docError || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = canReadDocument(document, user?.id, shareToken);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not have access to this document' },
+        { status: 403 }
+      );
+    }
+
+    const versions = await listVersions(supabase, documentId);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/versions
+ *
+ * Tag a point of the document's history with a name
+ *
+ * Requires authentication and ownership.
+ *
+ * Body:
+ * {
+ *   name: string
+ *   event_count?: number  // events included; defaults to the whole history
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Check document ownership
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, user_id, event_seq')
+      .eq('id', documentId)
+      .single();
+
+    if (docError || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (document.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You do not own this document' },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { name, event_count: eventCount = document.event_seq } = body;
+
+    const nameError = validateVersionName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    if (
+      !Number.isInteger(eventCount) ||
+      eventCount < 0 ||
+      eventCount > document.event_seq
+    ) {
+      return NextResponse.json(
+        { error: `event_count must be an integer between 0 and ${document.event_seq}` },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('document_versions')
+      .insert({
+        document_id: documentId,
+        name: name.trim(),
+        event_count: eventCount,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json(
+        { error: 'Failed to create version' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ version: data }, { status: 201 });
+  } catch (error) {
+    console.error('Unexpected error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { PostgrestError } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
 import type { DocumentInsert } from '@/types/supabase';
+import { fetchShareTokens } from '@/lib/auth/document-access';
 import { 
   handleSupabaseError, 
   handleValidationError, 
@@ -73,7 +75,21 @@ export async function GET(request: NextRequest) {
       return createErrorResponse(handleSupabaseError(error));
     }
 
-    return NextResponse.json({ documents: data });
+    // Owners get their share tokens for building share links
+    let shareTokens: Map<string, string>;
+    try {
+      shareTokens = await fetchShareTokens(supabase, data.map((document) => document.id));
+    } catch (tokenError) {
+      Logger.error('Database error in GET /api/documents', tokenError);
+      return createErrorResponse(handleSupabaseError(tokenError as PostgrestError));
+    }
+
+    return NextResponse.json({
+      documents: data.map((document) => ({
+        ...document,
+        share_token: shareTokens.get(document.id) ?? null,
+      })),
+    });
   } catch (error) {
     return handleUnexpectedError(error);
   }
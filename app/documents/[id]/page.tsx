@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState, useCallback } from 'react';
 import { TextEditor } from '@/components/editor/TextEditor';
 import { EditorToolbar } from '@/components/editor/EditorToolbar';
+import { DocumentCache } from '@/lib/db/document-cache';
+import { SyncQueueManager } from '@/lib/db/sync-queue';
 
 interface DocumentPageProps {
   params: {
@@ -18,6 +20,10 @@ export default function DocumentPage({ params }: DocumentPageProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [documentExists, setDocumentExists] = useState(false);
   const [documentTitle, setDocumentTitle] = useState<string>('Untitled Document');
+  const [initialContent, setInitialContent] = useState<string>('');
+  // Bumped on every resync so the editor starts over even when the
+  // reloaded content is the same string as before
+  const [resyncCount, setResyncCount] = useState(0);
 
   const checkDocumentExists = useCallback(async () => {
     try {
@@ -27,6 +33,10 @@ export default function DocumentPage({ params }: DocumentPageProps) {
       if (response.ok) {
         const data = await response.json();
         setDocumentTitle(data.document.title || 'Untitled Document');
+
+        // Restore the latest content so new events line up with the history
+        const { content } = await DocumentCache.bootstrap(data.document);
+        setInitialContent(content);
         setDocumentExists(true);
       } else if (response.status === 404) {
         // Document doesn't exist
@@ -44,6 +54,16 @@ export default function DocumentPage({ params }: DocumentPageProps) {
     }
   }, [params.id]);
 
+  // Local edits the server refused were dropped: reload its history
+  useEffect(
+    () =>
+      SyncQueueManager.onResyncRequired(params.id, async () => {
+        await checkDocumentExists();
+        setResyncCount((count) => count + 1);
+      }),
+    [params.id, checkDocumentExists]
+  );
+
   useEffect(() => {
     if (!loading && !user) {
       router.push('/auth/login');
@@ -125,7 +145,9 @@ export default function DocumentPage({ params }: DocumentPageProps) {
       {/* Main Editor */}
       <main className="max-w-4xl mx-auto bg-white shadow-sm">
         <TextEditor
+          key={resyncCount}
           documentId={params.id}
+          initialContent={initialContent}
           placeholder="Continue writing your document..."
           maxLength={50000}
         />
@@ -4,12 +4,14 @@ import { useAuth } from '@/lib/auth/AuthProvider';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { withShareToken } from '@/lib/auth/document-access';
 
 interface Document {
   id: string;
   title: string;
   status: 'draft' | 'published' | 'archived';
   visibility: 'private' | 'public' | 'unlisted';
+  share_token: string | null;
   created_at: string;
   updated_at: string;
   last_edited_at: string;
@@ -167,7 +169,12 @@ export default function DocumentsPage() {
                             Public
                           </span>
                         )}
-                        {document.status === 'published' && document.visibility !== 'public' && (
+                        {document.visibility === 'unlisted' && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            Unlisted
+                          </span>
+                        )}
+                        {document.status === 'published' && document.visibility === 'private' && (
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                             Published
                           </span>
@@ -191,6 +198,14 @@ export default function DocumentsPage() {
                       >
                         Playback
                       </Link>
+                      {document.visibility === 'unlisted' && (
+                        <Link
+                          href={withShareToken(`/read/${document.id}`, document.share_token)}
+                          className="inline-flex items-center px-3 py-2 border border-gray-300 shadow-sm text-sm leading-4 font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                        >
+                          Share Link
+                        </Link>
+                      )}
                       <button
                         onClick={() => deleteDocument(document.id)}
                         className="inline-flex items-center px-3 py-2 border border-red-300 shadow-sm text-sm leading-4 font-medium rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
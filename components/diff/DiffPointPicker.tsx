@@ -0,0 +1,242 @@
+'use client';
+
+import { useState } from 'react';
+import type { WritingEvent } from '@/types/events';
+import type { NamedVersion } from '@/types/supabase';
+import { sessionRange, type SessionRun } from '@/lib/event-sourcing/sessions';
+import {
+  formatDiffPoint,
+  parseDiffPoint,
+  resolveDiffPoint,
+  type DiffPoint,
+} from '@/lib/diff/diff-points';
+import type { FirstDraftOptions } from '@/lib/diff/first-draft';
+import { formatDate } from '@/lib/utils/time';
+
+type Side = 'from' | 'to';
+
+interface DiffPointPickerProps {
+  /** Full history in replay order */
+  events: WritingEvent[];
+  /** Session runs of the history (from `groupSessions`) */
+  sessions: SessionRun[];
+  from: DiffPoint;
+  to: DiffPoint;
+  /** How `first-draft` points are picked (same as given to `useDiff`) */
+  firstDraft?: FirstDraftOptions;
+  /** Named versions to offer and mark on the timeline */
+  versions?: NamedVersion[];
+  onChange: (from: DiffPoint, to: DiffPoint) => void;
+  className?: string;
+}
+
+const SESSION_COLORS = ['bg-blue-100', 'bg-emerald-100'];
+const CUSTOM_OPTION = 'custom';
+
+/**
+ * Value for a datetime-local input, in local time
+ */
+function toLocalInput(timestamp: number): string {
+  const date = new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+}
+
+/**
+ * Point for a number of events from the start of the history
+ */
+function pointAtCount(eventCount: number, total: number): DiffPoint {
+  if (eventCount <= 0) return { kind: 'start' };
+  if (eventCount >= total) return { kind: 'end' };
+  return { kind: 'event', index: eventCount - 1 };
+}
+
+/**
+ * DiffPointPicker Component
+ *
+ * Chooses the two sides of a comparison: a timeline with both points
+ * marked, plus a slider, quick picks (blank page, first draft, session
+ * ends, named versions, final version) and a date/time for each side.
+ */
+export function DiffPointPicker({
+  events,
+  sessions,
+  from,
+  to,
+  firstDraft,
+  versions = [],
+  onChange,
+  className = '',
+}: DiffPointPickerProps) {
+  // Slider position while dragging, committed on release
+  const [draft, setDraft] = useState<{ side: Side; eventCount: number } | null>(null);
+
+  const total = events.length;
+  const sessionNumbers = [...new Set(sessions.map((run) => run.number))];
+
+  const points = { from, to };
+  const resolved = {
+    from: resolveDiffPoint(events, sessions, from, { firstDraft, versions }),
+    to: resolveDiffPoint(events, sessions, to, { firstDraft, versions }),
+  };
+  const countOf = (side: Side) =>
+    draft?.side === side ? draft.eventCount : resolved[side].eventCount;
+
+  const percent = (eventCount: number) => (total > 0 ? (eventCount / total) * 100 : 0);
+
+  const update = (side: Side, point: DiffPoint) => {
+    setDraft(null);
+    onChange(side === 'from' ? point : from, side === 'to' ? point : to);
+  };
+
+  const commitDraft = () => {
+    if (draft) {
+      update(draft.side, pointAtCount(draft.eventCount, total));
+    }
+  };
+
+  // What a session changed: from the end of the one before it to its own end
+  const showSession = (number: number) => {
+    setDraft(null);
+    onChange(
+      number > 1 ? { kind: 'session', number: number - 1 } : { kind: 'start' },
+      { kind: 'session', number }
+    );
+  };
+
+  const renderSide = (side: Side, title: string) => {
+    const point = points[side];
+    const selected = point.kind === 'event' || point.kind === 'time'
+      ? CUSTOM_OPTION
+      : formatDiffPoint(point);
+
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-[4rem_1fr] gap-2 items-center">
+        <span className="text-sm font-medium text-gray-700">{title}</span>
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={selected}
+              onChange={(e) => {
+                const next = parseDiffPoint(e.target.value);
+                if (next) update(side, next);
+              }}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {selected === CUSTOM_OPTION && (
+                <option value={CUSTOM_OPTION}>{resolved[side].label}</option>
+              )}
+              <option value="start">Blank page</option>
+              <option value="first-draft">
+                {point.kind === 'first-draft' ? resolved[side].label : 'First draft'}
+              </option>
+              {sessionNumbers.map((number) => {
+                const range = sessionRange(sessions, number);
+                return (
+                  <option key={number} value={formatDiffPoint({ kind: 'session', number })}>
+                    End of session {number}
+                    {range ? ` · ${formatDate(events[range.endIndex].timestamp)}` : ''}
+                  </option>
+                );
+              })}
+              {versions.length > 0 && (
+                <optgroup label="Named versions">
+                  {versions.map((version) => (
+                    <option key={version.id} value={formatDiffPoint({ kind: 'version', id: version.id })}>
+                      {version.name}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              <option value="end">Final version</option>
+            </select>
+
+            <input
+              type="datetime-local"
+              value={total > 0 ? toLocalInput(resolved[side].timestamp) : ''}
+              min={total > 0 ? toLocalInput(events[0].timestamp) : undefined}
+              max={total > 0 ? toLocalInput(events[total - 1].timestamp) : undefined}
+              onChange={(e) => {
+                const timestamp = new Date(e.target.value).getTime();
+                if (Number.isFinite(timestamp)) update(side, { kind: 'time', timestamp });
+              }}
+              disabled={total === 0}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+
+            <span className="text-xs text-gray-500">
+              {countOf(side)} / {total} events
+            </span>
+          </div>
+
+          <input
+            type="range"
+            min="0"
+            max={total}
+            step="1"
+            value={countOf(side)}
+            onChange={(e) => setDraft({ side, eventCount: parseInt(e.target.value, 10) })}
+            onPointerUp={commitDraft}
+            onKeyUp={commitDraft}
+            onBlur={commitDraft}
+            disabled={total === 0}
+            aria-label={`${title} point`}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+          />
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`diff-point-picker bg-white border border-gray-200 rounded-lg p-4 space-y-4 ${className}`}>
+      {/* Timeline: sessions with both points marked */}
+      <div className="relative h-6 rounded overflow-hidden bg-gray-100">
+        {sessions.map((run, index) => (
+          <button
+            key={`${run.id}-${run.startIndex}`}
+            onClick={() => showSession(run.number)}
+            title={`Session ${run.number}: ${new Date(run.startedAt).toLocaleString('ko-KR')} – ${new Date(run.endedAt).toLocaleTimeString('ko-KR')} (show what it changed)`}
+            className={`absolute inset-y-0 border-l border-white px-1 text-left text-[10px] leading-6 text-gray-700 truncate hover:brightness-95 ${SESSION_COLORS[index % SESSION_COLORS.length]}`}
+            style={{
+              left: `${percent(run.startIndex)}%`,
+              width: `${Math.max(percent(run.endIndex + 1) - percent(run.startIndex), 0.5)}%`,
+            }}
+          >
+            S{run.number} · {formatDate(run.startedAt)}
+          </button>
+        ))}
+
+        {/* Span between the two points */}
+        <div
+          className="absolute inset-y-0 bg-yellow-300/30 pointer-events-none"
+          style={{
+            left: `${percent(Math.min(countOf('from'), countOf('to')))}%`,
+            width: `${Math.abs(percent(countOf('to')) - percent(countOf('from')))}%`,
+          }}
+        />
+        {/* Named versions */}
+        {versions.map((version) => (
+          <button
+            key={version.id}
+            onClick={() => update('to', { kind: 'version', id: version.id })}
+            title={`${version.name} (compare up to this version)`}
+            className="absolute inset-y-0 w-2 -translate-x-1/2 bg-purple-500/60 hover:bg-purple-600"
+            style={{ left: `${percent(Math.min(version.event_count, total))}%` }}
+          />
+        ))}
+
+        <div
+          className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-red-500 pointer-events-none"
+          style={{ left: `${percent(countOf('from'))}%` }}
+        />
+        <div
+          className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-green-600 pointer-events-none"
+          style={{ left: `${percent(countOf('to'))}%` }}
+        />
+      </div>
+
+      {renderSide('from', 'From')}
+      {renderSide('to', 'To')}
+    </div>
+  );
+}
@@ -2,20 +2,13 @@
 
 import { DiffHighlight } from './DiffHighlight';
 import type { DiffResult } from '@/lib/diff/myers-diff';
-
-interface DocumentVersion {
-  documentId: string;
-  content: string;
-  timestamp: number;
-  label: 'first' | 'final';
-  eventCount: number;
-}
+import type { DocumentVersion } from '@/lib/diff/diff-points';
 
 interface DiffViewerProps {
-  /** First version (left side) */
-  firstVersion: DocumentVersion | null;
-  /** Final version (right side) */
-  finalVersion: DocumentVersion | null;
+  /** Earlier version (left side) */
+  fromVersion: DocumentVersion | null;
+  /** Later version (right side) */
+  toVersion: DocumentVersion | null;
   /** Diff result */
   diffResult: DiffResult | null;
   /** Loading state */
@@ -32,15 +25,15 @@ interface DiffViewerProps {
  * Side-by-side comparison of two document versions with highlighted changes.
  * 
  * Features:
- * - Split view layout (first vs final)
+ * - Split view layout (from vs to)
  * - Syntax highlighting for changes
  * - Statistics display
  * - Responsive design
  * - Loading and error states
  */
 export function DiffViewer({
-  firstVersion,
-  finalVersion,
+  fromVersion,
+  toVersion,
   diffResult,
   loading = false,
   error = null,
@@ -73,7 +66,7 @@ export function DiffViewer({
   }
   
   // No data state
-  if (!firstVersion || !finalVersion || !diffResult) {
+  if (!fromVersion || !toVersion || !diffResult) {
     return (
       <div className={`diff-viewer ${className}`}>
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
@@ -110,7 +103,7 @@ export function DiffViewer({
           </div>
           
           <div className="text-sm text-gray-500 whitespace-nowrap">
-            {firstVersion.eventCount} → {finalVersion.eventCount} events
+            {fromVersion.eventCount} → {toVersion.eventCount} events
           </div>
         </div>
       </div>
@@ -118,15 +111,15 @@ export function DiffViewer({
       {/* Version headers */}
       <div className="diff-version-headers bg-gray-50 border-l border-r border-gray-200 grid grid-cols-1 lg:grid-cols-2">
         <div className="p-3 border-r lg:border-r border-b lg:border-b-0 border-gray-200">
-          <div className="font-medium text-gray-900 text-sm sm:text-base">First Draft</div>
+          <div className="font-medium text-gray-900 text-sm sm:text-base">{fromVersion.label}</div>
           <div className="text-xs sm:text-sm text-gray-600">
-            {new Date(firstVersion.timestamp).toLocaleString()}
+            {new Date(fromVersion.timestamp).toLocaleString()}
           </div>
         </div>
         <div className="p-3">
-          <div className="font-medium text-gray-900 text-sm sm:text-base">Final Version</div>
+          <div className="font-medium text-gray-900 text-sm sm:text-base">{toVersion.label}</div>
           <div className="text-xs sm:text-sm text-gray-600">
-            {new Date(finalVersion.timestamp).toLocaleString()}
+            {new Date(toVersion.timestamp).toLocaleString()}
           </div>
         </div>
       </div>
@@ -135,8 +128,8 @@ export function DiffViewer({
       <div className="diff-content border-l border-r border-b border-gray-200 rounded-b-lg">
         <DiffHighlight
           diffResult={diffResult}
-          firstContent={firstVersion.content}
-          finalContent={finalVersion.content}
+          firstContent={fromVersion.content}
+          finalContent={toVersion.content}
         />
       </div>
       
@@ -1,7 +1,8 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useEditorStore } from '@/stores/editor-store';
+import { createNamedVersion, MAX_VERSION_NAME_LENGTH } from '@/lib/event-sourcing/versions';
 
 interface EditorToolbarProps {
   documentTitle: string;
@@ -15,19 +16,61 @@ interface EditorToolbarProps {
  *
  * Features:
  * - Document title editing
+ * - Undo/redo buttons
+ * - Tagging the current point as a named version
  * - Save button with sync status
  * - Pending events indicator
  * - Sync error display
  */
 export function EditorToolbar({ documentTitle, onTitleChange }: EditorToolbarProps) {
   const {
+    currentDocument,
     isSaving,
     lastSavedAt,
     pendingEventCount,
     syncError,
     syncNow,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
   } = useEditorStore();
 
+  // Version tagging form
+  const [tagName, setTagName] = useState<string | null>(null);
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagMessage, setTagMessage] = useState<string | null>(null);
+
+  /**
+   * Tag the current point: save pending edits first so the version
+   * covers everything on screen
+   */
+  const handleTagVersion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = tagName?.trim();
+    if (!currentDocument || !name) return;
+
+    setIsTagging(true);
+    setTagMessage(null);
+
+    try {
+      if (useEditorStore.getState().pendingEventCount > 0) {
+        await syncNow();
+      }
+      if (useEditorStore.getState().pendingEventCount > 0) {
+        throw new Error('Save your changes before tagging a version');
+      }
+
+      await createNamedVersion(currentDocument.id, name);
+      setTagName(null);
+      setTagMessage(`Tagged "${name}"`);
+    } catch (error) {
+      setTagMessage(error instanceof Error ? error.message : 'Failed to tag version');
+    } finally {
+      setIsTagging(false);
+    }
+  };
+
   const formatTimestamp = (timestamp: string | null) => {
     if (!timestamp) return 'Not saved';
 
@@ -62,6 +105,72 @@ export function EditorToolbar({ documentTitle, onTitleChange }: EditorToolbarPro
 
       {/* Right: Sync status and controls */}
       <div className="flex items-center gap-4">
+        {/* Undo / redo */}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => undo()}
+            disabled={!canUndo}
+            className="px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Undo (Ctrl+Z)"
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={() => redo()}
+            disabled={!canRedo}
+            className="px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            ↷ Redo
+          </button>
+        </div>
+
+        {/* Tag version */}
+        {tagName === null ? (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                setTagName('');
+                setTagMessage(null);
+              }}
+              disabled={!currentDocument}
+              className="px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+              title="Name this point of the timeline (e.g. Draft 2)"
+            >
+              🏷 Tag version
+            </button>
+            {tagMessage && <span className="text-sm text-gray-600">{tagMessage}</span>}
+          </div>
+        ) : (
+          <form onSubmit={handleTagVersion} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={tagName}
+              onChange={(e) => setTagName(e.target.value)}
+              maxLength={MAX_VERSION_NAME_LENGTH}
+              placeholder="Draft 2"
+              autoFocus
+              className="w-36 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isTagging || tagName.trim().length === 0}
+              className="px-2 py-1 text-sm text-blue-600 rounded hover:bg-blue-50 disabled:text-gray-300 disabled:hover:bg-transparent"
+            >
+              {isTagging ? 'Tagging...' : 'Tag'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setTagName(null)}
+              disabled={isTagging}
+              className="px-2 py-1 text-sm text-gray-500 rounded hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            {tagMessage && <span className="text-sm text-red-600">{tagMessage}</span>}
+          </form>
+        )}
+
         {/* Pending events indicator */}
         {pendingEventCount > 0 && (
           <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -2,13 +2,21 @@
 
 import React, { useCallback, useRef, useEffect } from 'react';
 import { useEditorStore } from '@/stores/editor-store';
-import type { WritingEventInsert, EventType } from '@/types/events';
+import { captureChange } from '@/lib/event-sourcing/capture';
+import type { WritingEventInsert } from '@/types/events';
 
 interface TextEditorProps {
   documentId: string;
   initialContent?: string;
   placeholder?: string;
   maxLength?: number;
+  /**
+   * Record every intermediate IME composition state (e.g. each jamo while
+   * a Hangul syllable is assembled) instead of only the committed text.
+   * Makes playback show composition exactly as typed, at the cost of a
+   * much larger event log.
+   */
+  captureCompositionFrames?: boolean;
 }
 
 /**
@@ -21,25 +29,33 @@ interface TextEditorProps {
  * - Tracks cursor position
  * - Enforces character limit
  * - Auto-queues events to IndexedDB
+ * - Undo/redo recorded as inverse events (native textarea undo is disabled)
+ * - IME-aware: Korean/Japanese/Chinese composition is recorded once it is
+ *   committed, not for every intermediate state
  */
 export function TextEditor({
   documentId,
   initialContent = '',
   placeholder = '여기에 글을 작성하세요...',
   maxLength = 50000,
+  captureCompositionFrames = false,
 }: TextEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const lastContentRef = useRef<string>(initialContent);
+  const composingRef = useRef(false);
 
   const {
     content,
     cursorPosition,
     initDocument,
     updateContent,
+    previewContent,
     setCursorPosition,
     startAutoSync,
     stopAutoSync,
     clearDocument,
+    undo,
+    redo,
   } = useEditorStore();
 
   // Initialize document on mount
@@ -55,6 +71,35 @@ export function TextEditor({
     };
   }, [documentId, initialContent, initDocument, startAutoSync, stopAutoSync, clearDocument]);
 
+  // Follow content changed by the store itself (edits merged in from
+  // another device), so the next event is diffed against what is shown.
+  // While composing, the shown text is a preview and the base must stay.
+  useEffect(() => {
+    if (!composingRef.current) {
+      lastContentRef.current = content;
+    }
+  }, [content]);
+
+  // The browser's own undo stack (Edit menu, context menu) would change
+  // the text without going through our events, so route it to the store
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const handleBeforeInput = (e: InputEvent) => {
+      if (e.inputType === 'historyUndo') {
+        e.preventDefault();
+        undo();
+      } else if (e.inputType === 'historyRedo') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    textarea.addEventListener('beforeinput', handleBeforeInput);
+    return () => textarea.removeEventListener('beforeinput', handleBeforeInput);
+  }, [undo, redo]);
+
   // Restore cursor position after updates
   useEffect(() => {
     if (textareaRef.current) {
@@ -64,63 +109,49 @@ export function TextEditor({
   }, [cursorPosition]);
 
   /**
-   * Create writing event from content change
+   * Create writing events from a content change (one per changed region)
    */
-  const createEvent = useCallback(
-    (
-      oldContent: string,
-      newContent: string,
-      cursorPos: number
-    ): WritingEventInsert | null => {
-      const timestamp = Date.now();
-
-      // Find the difference
-      let position = 0;
-      const minLength = Math.min(oldContent.length, newContent.length);
-
-      // Find first difference position
-      while (position < minLength && oldContent[position] === newContent[position]) {
-        position++;
+  const createEvents = useCallback(
+    (oldContent: string, newContent: string, cursorPos: number): WritingEventInsert[] =>
+      captureChange(
+        oldContent,
+        newContent,
+        {
+          document_id: documentId,
+          session_id: '', // Will be filled by store
+          timestamp: Date.now(),
+        },
+        cursorPos
+      ),
+    [documentId]
+  );
+
+  /**
+   * Record a change to the text as an event
+   */
+  const commitChange = useCallback(
+    async (newContent: string, newCursorPos: number) => {
+      // Enforce character limit
+      if (newContent.length > maxLength) {
+        // A composition may already be on screen; put the text back
+        if (newContent !== content) {
+          previewContent(lastContentRef.current);
+        }
+        return;
       }
 
-      const oldRest = oldContent.slice(position);
-      const newRest = newContent.slice(position);
-
-      // Determine event type
-      let eventType: EventType;
-      let eventContent: string | null = null;
-      let contentBefore: string | null = null;
-
-      if (oldContent.length < newContent.length) {
-        // INSERT
-        eventType = 'insert';
-        eventContent = newContent.slice(position, position + (newContent.length - oldContent.length));
-      } else if (oldContent.length > newContent.length) {
-        // DELETE
-        eventType = 'delete';
-        contentBefore = oldContent.slice(position, position + (oldContent.length - newContent.length));
-      } else if (oldRest !== newRest) {
-        // REPLACE (same length but different content)
-        eventType = 'replace';
-        const replaceLength = oldRest.length;
-        eventContent = newRest;
-        contentBefore = oldRest;
-      } else {
-        // No change
-        return null;
+      // Create events
+      const events = createEvents(lastContentRef.current, newContent, newCursorPos);
+
+      if (events.length > 0) {
+        // Update store (will queue events)
+        await updateContent(newContent, newCursorPos, events);
       }
 
-      return {
-        document_id: documentId,
-        session_id: '', // Will be filled by store
-        timestamp,
-        event_type: eventType,
-        position,
-        content: eventContent,
-        content_before: contentBefore,
-      };
+      // Update refs
+      lastContentRef.current = newContent;
     },
-    [documentId]
+    [content, createEvents, maxLength, previewContent, updateContent]
   );
 
   /**
@@ -131,23 +162,37 @@ export function TextEditor({
       const newContent = e.target.value;
       const newCursorPos = e.target.selectionStart;
 
-      // Enforce character limit
-      if (newContent.length > maxLength) {
+      // Mid-composition: show the text, record it once committed
+      if (composingRef.current && !captureCompositionFrames) {
+        previewContent(newContent);
         return;
       }
 
-      // Create event
-      const event = createEvent(lastContentRef.current, newContent, newCursorPos);
+      await commitChange(newContent, newCursorPos);
+    },
+    [captureCompositionFrames, commitChange, previewContent]
+  );
 
-      if (event) {
-        // Update store (will queue event)
-        await updateContent(newContent, newCursorPos, event);
-      }
+  /**
+   * Handle IME composition start
+   */
+  const handleCompositionStart = useCallback(() => {
+    composingRef.current = true;
+  }, []);
 
-      // Update refs
-      lastContentRef.current = newContent;
+  /**
+   * Handle IME composition end: record the committed text
+   *
+   * Some browsers (Safari) fire one more change event after this; it
+   * finds nothing new to record.
+   */
+  const handleCompositionEnd = useCallback(
+    async (e: React.CompositionEvent<HTMLTextAreaElement>) => {
+      composingRef.current = false;
+      const textarea = e.currentTarget;
+      await commitChange(textarea.value, textarea.selectionStart);
     },
-    [createEvent, maxLength, updateContent]
+    [commitChange]
   );
 
   /**
@@ -169,7 +214,21 @@ export function TextEditor({
       e.preventDefault();
       useEditorStore.getState().syncNow();
     }
-  }, []);
+
+    // Cmd/Ctrl + Z: Undo, Cmd/Ctrl + Shift + Z or Ctrl + Y: Redo
+    const key = e.key.toLowerCase();
+    if ((e.metaKey || e.ctrlKey) && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    } else if (e.ctrlKey && key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  }, [undo, redo]);
 
   const characterCount = content.length;
   const isNearLimit = characterCount > maxLength * 0.9;
@@ -180,6 +239,8 @@ export function TextEditor({
         ref={textareaRef}
         value={content}
         onChange={handleChange}
+        onCompositionStart={handleCompositionStart}
+        onCompositionEnd={handleCompositionEnd}
         onSelect={handleSelectionChange}
         onKeyDown={handleKeyDown}
         placeholder={placeholder}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { ReplayFrame } from '@/lib/event-sourcing/replay';
+import { requestFork } from '@/lib/event-sourcing/forks';
+
+interface ForkButtonProps {
+  documentId: string;
+  /** Frame on screen: the fork inherits the history up to it */
+  frame: ReplayFrame | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * ForkButton Component
+ *
+ * "Fork from this moment": starts a new document that shares the
+ * history up to the frame on screen (e.g. for an alternate ending) and
+ * opens it in the editor. The original is left as it is.
+ */
+export default function ForkButton({
+  documentId,
+  frame,
+  disabled = false,
+  className = '',
+}: ForkButtonProps) {
+  const router = useRouter();
+  const [forking, setForking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFork = async () => {
+    if (!frame) return;
+
+    setForking(true);
+    setError(null);
+
+    try {
+      const fork = await requestFork(documentId, {
+        eventCount: frame.event.seq ?? frame.eventIndex + 1,
+      });
+      router.push(`/documents/${fork.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fork document');
+      setForking(false);
+    }
+  };
+
+  return (
+    <div className={`fork-button flex items-center gap-3 ${className}`}>
+      <button
+        onClick={handleFork}
+        disabled={disabled || forking || !frame}
+        className="px-3 py-1.5 text-sm border border-gray-300 text-gray-700 bg-white rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Start a new document from the moment on screen"
+      >
+        {forking ? 'Forking...' : '⑂ Fork from this moment'}
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
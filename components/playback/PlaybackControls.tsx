@@ -8,36 +8,75 @@ interface PlaybackControlsProps {
   className?: string;
 }
 
-export default function PlaybackControls({ 
-  state, 
-  controls, 
-  className = '' 
+const BUTTON_CLASS =
+  'w-10 h-10 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center';
+
+export default function PlaybackControls({
+  state,
+  controls,
+  className = ''
 }: PlaybackControlsProps) {
   const isPlaying = state === 'playing';
   const canPlay = state === 'idle' || state === 'paused' || state === 'completed';
   const canPause = state === 'playing';
   const canStop = state === 'playing' || state === 'paused';
-  
+
   return (
     <div className={`playback-controls flex items-center gap-2 ${className}`}>
+      {/* Step Back Button */}
+      <button
+        onClick={() => controls.step(-1)}
+        title="Previous event (←)"
+        className={BUTTON_CLASS}
+      >
+        ⏪
+      </button>
+
       {/* Play/Pause Button */}
       <button
         onClick={isPlaying ? controls.pause : controls.play}
         disabled={!canPlay && !canPause}
-        className="w-10 h-10 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+        title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+        className={BUTTON_CLASS}
       >
         {isPlaying ? '⏸️' : '▶️'}
       </button>
-      
+
+      {/* Step Forward Button */}
+      <button
+        onClick={() => controls.step(1)}
+        title="Next event (→)"
+        className={BUTTON_CLASS}
+      >
+        ⏩
+      </button>
+
       {/* Stop Button */}
       <button
         onClick={controls.stop}
         disabled={!canStop}
-        className="w-10 h-10 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+        title="Stop"
+        className={BUTTON_CLASS}
       >
         ⏹️
       </button>
-      
+
+      {/* Jump Buttons */}
+      <button
+        onClick={controls.nextSession}
+        title="Next session (N)"
+        className="px-2 h-10 border border-gray-300 rounded-md hover:bg-gray-50 text-sm"
+      >
+        Next session
+      </button>
+      <button
+        onClick={controls.nextLongPause}
+        title="Next long pause (P)"
+        className="px-2 h-10 border border-gray-300 rounded-md hover:bg-gray-50 text-sm"
+      >
+        Next pause
+      </button>
+
       {/* State Indicator */}
       <div className="ml-2 text-sm text-gray-600">
         {state === 'idle' && 'Ready'}
@@ -47,4 +86,4 @@ export default function PlaybackControls({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
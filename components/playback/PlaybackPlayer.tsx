@@ -1,38 +1,67 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { ReplayFrame } from '@/lib/event-sourcing/replay';
+import {
+  advancePlaybackView,
+  buildPlaybackSegments,
+  EMPTY_PLAYBACK_VIEW,
+  nextExpiry,
+  pruneMarks,
+  startPlaybackView,
+  type PlaybackView,
+} from '@/lib/event-sourcing/playback-marks';
 
 interface PlaybackPlayerProps {
   frame: ReplayFrame | null;
   className?: string;
 }
 
+/**
+ * View for a new frame: marks carry over when it is the next event,
+ * otherwise (seeking) only the caret is shown
+ */
+function nextView(
+  view: PlaybackView,
+  previousFrame: ReplayFrame | null,
+  frame: ReplayFrame | null
+): PlaybackView {
+  if (!frame) return EMPTY_PLAYBACK_VIEW;
+
+  if (previousFrame && frame.eventIndex === previousFrame.eventIndex + 1) {
+    return advancePlaybackView(view, frame.event, frame.content.length, Date.now());
+  }
+
+  return startPlaybackView(frame.event, frame.content.length);
+}
+
 export default function PlaybackPlayer({ frame, className = '' }: PlaybackPlayerProps) {
-  const contentRef = useRef<HTMLDivElement>(null);
-  const previousContentRef = useRef<string>('');
-  
+  const [view, setView] = useState<PlaybackView>(EMPTY_PLAYBACK_VIEW);
+  const [previousFrame, setPreviousFrame] = useState<ReplayFrame | null>(null);
+
+  // Updated while rendering the frame, so content and marks change in the same paint
+  if (frame !== previousFrame) {
+    setPreviousFrame(frame);
+    setView(nextView(view, previousFrame, frame));
+  }
+
+  // Drop marks once they have faded out
   useEffect(() => {
-    if (!frame || !contentRef.current) return;
-    
-    const currentContent = frame.content;
-    const previousContent = previousContentRef.current;
-    
-    // Simple content update for MVP
-    // Future: Add character-by-character animation, cursor simulation
-    contentRef.current.textContent = currentContent;
-    
-    // Highlight the changed part (simple implementation)
-    if (currentContent !== previousContent) {
-      contentRef.current.classList.add('playback-flash');
-      setTimeout(() => {
-        contentRef.current?.classList.remove('playback-flash');
-      }, 100);
-    }
-    
-    previousContentRef.current = currentContent;
-  }, [frame]);
-  
+    const expiry = nextExpiry(view);
+    if (expiry === null) return;
+
+    const timer = setTimeout(() => {
+      setView((current) => ({ ...current, marks: pruneMarks(current.marks, Date.now()) }));
+    }, Math.max(0, expiry - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [view]);
+
+  const segments = useMemo(
+    () => (frame ? buildPlaybackSegments(frame.content, view) : []),
+    [frame, view]
+  );
+
   return (
     <div className={`playback-player ${className}`}>
       <div className="playback-header mb-4">
@@ -45,28 +74,76 @@ export default function PlaybackPlayer({ frame, className = '' }: PlaybackPlayer
               <span className="text-xs sm:text-sm text-gray-600">
                 {frame.progress.toFixed(1)}%
               </span>
+              {frame.event.restored_to != null && (
+                <span className="text-xs sm:text-sm text-amber-700">
+                  ↺ Restore to event {frame.event.restored_to.toLocaleString()}
+                </span>
+              )}
             </>
           )}
         </div>
       </div>
-      
+
       <div className="playback-content-wrapper">
-        <div
-          ref={contentRef}
-          className="playback-content whitespace-pre-wrap font-mono text-xs sm:text-sm p-3 sm:p-4 min-h-[200px] sm:min-h-[300px] bg-gray-50 rounded-md border"
-        />
+        <div className="playback-content whitespace-pre-wrap break-words font-mono text-xs sm:text-sm p-3 sm:p-4 min-h-[200px] sm:min-h-[300px] bg-gray-50 rounded-md border">
+          {segments.map((segment, index) => {
+            switch (segment.kind) {
+              case 'text':
+                return <span key={`text-${index}`}>{segment.text}</span>;
+              case 'insert':
+                return (
+                  <span key={`insert-${segment.id}`} className="playback-insert">
+                    {segment.text}
+                  </span>
+                );
+              case 'ghost':
+                return (
+                  <span key={`ghost-${segment.id}`} className="playback-ghost" aria-hidden="true">
+                    {segment.text}
+                  </span>
+                );
+              case 'caret':
+                return <span key="caret" className="playback-caret" aria-hidden="true" />;
+            }
+          })}
+        </div>
       </div>
-      
+
       <style jsx>{`
-        .playback-flash {
-          animation: flash 0.1s ease-in-out;
+        .playback-caret {
+          display: inline-block;
+          width: 0;
+          height: 1.2em;
+          margin-right: -2px;
+          border-left: 2px solid rgb(37, 99, 235);
+          vertical-align: text-bottom;
+          animation: caret-blink 1s step-end infinite;
+        }
+
+        .playback-insert {
+          animation: insert-fade 1.5s ease-out forwards;
+        }
+
+        .playback-ghost {
+          color: rgb(220, 38, 38);
+          text-decoration: line-through;
+          animation: ghost-fade 2.5s ease-in forwards;
         }
-        
-        @keyframes flash {
-          0% { background-color: rgba(59, 130, 246, 0.1); }
+
+        @keyframes caret-blink {
+          50% { opacity: 0; }
+        }
+
+        @keyframes insert-fade {
+          0% { background-color: rgba(250, 204, 21, 0.6); }
           100% { background-color: transparent; }
         }
+
+        @keyframes ghost-fade {
+          0% { opacity: 0.8; }
+          100% { opacity: 0.2; }
+        }
       `}</style>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import type { ReplayFrame } from '@/lib/event-sourcing/replay';
+import { requestRestore } from '@/lib/event-sourcing/restore';
+
+interface RestoreButtonProps {
+  documentId: string;
+  /** Frame on screen: its moment is what gets restored */
+  frame: ReplayFrame | null;
+  /** Seq of the latest loaded event: the restore is refused if the document moved on */
+  headSeq: number;
+  disabled?: boolean;
+  /** Called once the compensating events are stored */
+  onRestored?: () => void;
+  className?: string;
+}
+
+/**
+ * RestoreButton Component
+ *
+ * "Restore to this moment": appends the edits that bring the document
+ * back to the event on screen. Nothing is removed from the history.
+ */
+export default function RestoreButton({
+  documentId,
+  frame,
+  headSeq,
+  disabled = false,
+  onRestored,
+  className = '',
+}: RestoreButtonProps) {
+  const [restoring, setRestoring] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const isLatest = frame !== null && frame.eventIndex === frame.totalEvents - 1;
+
+  const handleRestore = async () => {
+    if (!frame) return;
+
+    const moment = new Date(frame.event.timestamp).toLocaleString('ko-KR');
+    if (!confirm(`Restore the document to how it was at ${moment}? The restore is added to the history as new edits.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    setMessage(null);
+
+    try {
+      const result = await requestRestore(
+        documentId,
+        frame.event.seq ?? frame.eventIndex + 1,
+        headSeq
+      );
+      setMessage(
+        result.inserted_count > 0
+          ? `Restored to ${moment}`
+          : 'The document already matches this moment'
+      );
+      onRestored?.();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to restore');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className={`restore-button flex items-center gap-3 ${className}`}>
+      <button
+        onClick={handleRestore}
+        disabled={disabled || restoring || !frame || isLatest}
+        className="px-3 py-1.5 text-sm border border-amber-300 text-amber-800 bg-amber-50 rounded hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Bring the document back to the moment on screen"
+      >
+        {restoring ? 'Restoring...' : '↺ Restore to this moment'}
+      </button>
+      {message && <span className="text-sm text-gray-600">{message}</span>}
+    </div>
+  );
+}
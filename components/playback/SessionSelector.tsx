@@ -0,0 +1,49 @@
+'use client';
+
+import type { SessionRun } from '@/lib/event-sourcing/sessions';
+
+interface SessionSelectorProps {
+  /** All session runs (from `groupSessions`) */
+  sessions: SessionRun[];
+  /** Selected session number, or null for all */
+  value: number | null;
+  onChange: (sessionNumber: number | null) => void;
+  className?: string;
+}
+
+export default function SessionSelector({
+  sessions,
+  value,
+  onChange,
+  className = ''
+}: SessionSelectorProps) {
+  // One option per session, however many runs it was split into
+  const options = new Map<number, { startedAt: number; eventCount: number }>();
+  for (const run of sessions) {
+    const option = options.get(run.number);
+    const eventCount = run.endIndex - run.startIndex + 1;
+    if (option) {
+      option.eventCount += eventCount;
+    } else {
+      options.set(run.number, { startedAt: run.startedAt, eventCount });
+    }
+  }
+
+  return (
+    <div className={`session-selector flex items-center gap-2 ${className}`}>
+      <span className="text-sm text-gray-600">Session:</span>
+      <select
+        value={value === null ? '' : value.toString()}
+        onChange={(e) => onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+      >
+        <option value="">All sessions ({options.size})</option>
+        {[...options].map(([number, option]) => (
+          <option key={number} value={number.toString()}>
+            Session {number} · {new Date(option.startedAt).toLocaleString('ko-KR')} ({option.eventCount} events)
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
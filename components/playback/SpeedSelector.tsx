@@ -1,6 +1,11 @@
 'use client';
 
-import type { PlaybackSpeed } from '@/hooks/usePlayback';
+import {
+  formatPlaybackSpeed,
+  MAX_PLAYBACK_SPEED,
+  MIN_PLAYBACK_SPEED,
+  type PlaybackSpeed,
+} from '@/hooks/usePlayback';
 
 interface SpeedSelectorProps {
   speed: PlaybackSpeed;
@@ -8,32 +13,29 @@ interface SpeedSelectorProps {
   className?: string;
 }
 
-const SPEED_OPTIONS: { value: PlaybackSpeed; label: string }[] = [
-  { value: 0.5, label: '0.5x' },
-  { value: 1, label: '1x' },
-  { value: 2, label: '2x' },
-  { value: 4, label: '4x' },
-];
+// The slider moves on a log scale, so 0.25x-2x gets as much room as 8x-64x
+const MIN_STEP = Math.log2(MIN_PLAYBACK_SPEED);
+const MAX_STEP = Math.log2(MAX_PLAYBACK_SPEED);
 
-export default function SpeedSelector({ 
-  speed, 
-  onSpeedChange, 
-  className = '' 
+export default function SpeedSelector({
+  speed,
+  onSpeedChange,
+  className = ''
 }: SpeedSelectorProps) {
   return (
     <div className={`speed-selector flex items-center gap-2 ${className}`}>
       <span className="text-sm text-gray-600">Speed:</span>
-      <select
-        value={speed.toString()}
-        onChange={(e) => onSpeedChange(parseFloat(e.target.value) as PlaybackSpeed)}
-        className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
-      >
-        {SPEED_OPTIONS.map((option) => (
-          <option key={option.value} value={option.value.toString()}>
-            {option.label}
-          </option>
-        ))}
-      </select>
+      <input
+        type="range"
+        min={MIN_STEP}
+        max={MAX_STEP}
+        step="0.05"
+        value={Math.log2(speed)}
+        onChange={(e) => onSpeedChange(2 ** parseFloat(e.target.value))}
+        aria-label="Playback speed"
+        className="w-24 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+      />
+      <span className="w-12 font-mono text-sm tabular-nums">{formatPlaybackSpeed(speed)}</span>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,20 +1,40 @@
 'use client';
 
-import type { PlaybackControls } from '@/hooks/usePlayback';
+import type {
+  PlaybackControls,
+  TimelineGap,
+  TimelineSession,
+  TimelineVersion,
+} from '@/hooks/usePlayback';
+import { formatDate, formatGap } from '@/lib/utils/time';
 
 interface TimelineSliderProps {
   currentTimeMs: number;
   totalTimeMs: number;
   progress: number;
   controls: PlaybackControls;
+  /** Session runs to mark on the timeline */
+  sessions?: TimelineSession[];
+  /** Idle gaps to mark on the timeline */
+  idleGaps?: TimelineGap[];
+  /** Named versions to mark on the timeline */
+  versions?: TimelineVersion[];
   className?: string;
 }
 
+/** Above this many gaps, only the markers are drawn (labels would overlap) */
+const MAX_GAP_LABELS = 12;
+
+const SESSION_COLORS = ['bg-blue-100 hover:bg-blue-200', 'bg-emerald-100 hover:bg-emerald-200'];
+
 export default function TimelineSlider({
   currentTimeMs,
   totalTimeMs,
   progress,
   controls,
+  sessions = [],
+  idleGaps = [],
+  versions = [],
   className = '',
 }: TimelineSliderProps) {
   const handleSeek = (value: number[]) => {
@@ -22,9 +42,61 @@ export default function TimelineSlider({
     const targetTimeMs = (targetProgress / 100) * totalTimeMs;
     controls.seek(targetTimeMs);
   };
-  
+
+  const percent = (timeMs: number) =>
+    totalTimeMs > 0 ? Math.max(0, Math.min(100, (timeMs / totalTimeMs) * 100)) : 0;
+
   return (
     <div className={`timeline-slider ${className}`}>
+      {/* Named versions */}
+      {versions.length > 0 && (
+        <div className="relative h-5 mb-1 text-[10px]">
+          {versions.map((version) => (
+            <button
+              key={version.id}
+              onClick={() => controls.seekToEvent(version.eventIndex)}
+              title={`${version.name} (tagged ${new Date(version.created_at).toLocaleString('ko-KR')})`}
+              className="absolute -translate-x-1/2 max-w-[8rem] truncate rounded px-1 leading-5 bg-purple-100 text-purple-800 hover:bg-purple-200"
+              style={{ left: `${percent(version.startMs)}%` }}
+            >
+              ⚑ {version.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Session chapters */}
+      {sessions.length > 0 && (
+        <div className="relative h-6 mb-1 rounded overflow-hidden bg-gray-100">
+          {sessions.map((session, index) => {
+            const left = percent(session.startMs);
+            const width = Math.max(percent(session.endMs) - left, 0.5);
+
+            return (
+              <button
+                key={`${session.id}-${session.startIndex}`}
+                onClick={() => controls.seekToEvent(session.startIndex)}
+                title={`Session ${session.number}: ${new Date(session.startedAt).toLocaleString('ko-KR')} – ${new Date(session.endedAt).toLocaleTimeString('ko-KR')} (${session.endIndex - session.startIndex + 1} events)`}
+                className={`absolute inset-y-0 border-l border-white px-1 text-left text-[10px] leading-6 text-gray-700 truncate ${SESSION_COLORS[index % SESSION_COLORS.length]}`}
+                style={{ left: `${left}%`, width: `${width}%` }}
+              >
+                S{session.number} · {formatDate(session.startedAt)}
+              </button>
+            );
+          })}
+
+          {/* Idle gaps */}
+          {idleGaps.map((gap) => (
+            <div
+              key={gap.afterIndex}
+              title={`${formatGap(gap.durationMs)} idle`}
+              className="absolute inset-y-0 w-0.5 bg-gray-400 pointer-events-none"
+              style={{ left: `${percent(gap.startMs)}%` }}
+            />
+          ))}
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
         <input
           type="range"
@@ -37,7 +109,22 @@ export default function TimelineSlider({
           className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
         />
       </div>
-      
+
+      {/* Idle gap labels */}
+      {idleGaps.length > 0 && idleGaps.length <= MAX_GAP_LABELS && (
+        <div className="relative h-4 mt-1 text-[10px] text-gray-500">
+          {idleGaps.map((gap) => (
+            <span
+              key={gap.afterIndex}
+              className="absolute -translate-x-1/2 whitespace-nowrap"
+              style={{ left: `${percent(gap.startMs)}%` }}
+            >
+              ⏸ {formatGap(gap.durationMs)}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Progress indicator */}
       <div className="mt-1 text-xs text-gray-600">
         <div className="flex justify-between">
@@ -48,4 +135,4 @@ export default function TimelineSlider({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { TIMING_MODES, type TimingMode, type TimingOptions } from '@/lib/event-sourcing/timing';
+
+interface TimingSelectorProps {
+  timing: TimingOptions;
+  onTimingChange: (timing: TimingOptions) => void;
+  className?: string;
+}
+
+const DEFAULT_DURATION_SECONDS = 60;
+
+export default function TimingSelector({
+  timing,
+  onTimingChange,
+  className = ''
+}: TimingSelectorProps) {
+  const durationSeconds = Math.round((timing.durationMs ?? DEFAULT_DURATION_SECONDS * 1000) / 1000);
+
+  const handleModeChange = (mode: TimingMode) => {
+    onTimingChange(
+      mode === 'fixed-duration'
+        ? { mode, durationMs: durationSeconds * 1000 }
+        : { mode }
+    );
+  };
+
+  const handleDurationChange = (seconds: number) => {
+    if (!Number.isFinite(seconds) || seconds <= 0) return;
+    onTimingChange({ mode: 'fixed-duration', durationMs: seconds * 1000 });
+  };
+
+  return (
+    <div className={`timing-selector flex items-center gap-2 ${className}`}>
+      <span className="text-sm text-gray-600">Timing:</span>
+      <select
+        value={timing.mode}
+        onChange={(e) => handleModeChange(e.target.value as TimingMode)}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+      >
+        {TIMING_MODES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {timing.mode === 'fixed-duration' && (
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          <input
+            type="number"
+            min="1"
+            value={durationSeconds}
+            onChange={(e) => handleDurationChange(parseInt(e.target.value, 10))}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          s
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React from 'react';
+import { useLiveDocument } from '@/hooks/useLiveDocument';
+import type { LiveEventChannel, LiveStatus } from '@/lib/event-sourcing/live';
+
+interface LiveDocumentContentProps {
+  documentId: string;
+  /** Content rendered by the server */
+  initialContent: string;
+  /** Seq of the last event in `initialContent` */
+  initialSeq: number;
+  /** Event source override (tests) */
+  channel?: LiveEventChannel;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  disconnected: 'Reconnecting…',
+};
+
+const STATUS_STYLES: Record<LiveStatus, string> = {
+  connecting: 'bg-gray-100 text-gray-600',
+  live: 'bg-red-50 text-red-600',
+  disconnected: 'bg-yellow-50 text-yellow-700',
+};
+
+/**
+ * LiveDocumentContent Component
+ *
+ * Shows a document as its author writes it.
+ *
+ * Features:
+ * - Content updates with every new writing event
+ * - Blinking caret where the author last edited
+ * - Connection status badge (live / reconnecting)
+ */
+export function LiveDocumentContent({
+  documentId,
+  initialContent,
+  initialSeq,
+  channel,
+  className = '',
+}: LiveDocumentContentProps) {
+  const { content, cursorPosition, status } = useLiveDocument({
+    documentId,
+    initialContent,
+    initialSeq,
+    channel,
+  });
+
+  const caret = cursorPosition === null ? null : Math.min(cursorPosition, content.length);
+
+  return (
+    <div className={className}>
+      <div className="mb-4 flex items-center gap-2 text-sm">
+        <span
+          className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full font-medium ${STATUS_STYLES[status]}`}
+        >
+          <span
+            className={`w-2 h-2 rounded-full ${
+              status === 'live' ? 'bg-red-500 animate-pulse' : 'bg-current opacity-50'
+            }`}
+          />
+          {STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      <article
+        className="whitespace-pre-wrap break-words text-gray-800"
+        style={{
+          lineHeight: '1.8',
+          fontSize: '18px',
+        }}
+      >
+        {caret === null ? (
+          content
+        ) : (
+          <>
+            {content.slice(0, caret)}
+            <span
+              className="inline-block w-0.5 h-[1.2em] -mb-[0.2em] bg-blue-600 animate-pulse"
+              aria-label="Author's cursor"
+            />
+            {content.slice(caret)}
+          </>
+        )}
+        {content.length === 0 && caret === null && (
+          <span className="text-gray-400">Waiting for the author to start writing…</span>
+        )}
+      </article>
+    </div>
+  );
+}
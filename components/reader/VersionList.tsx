@@ -0,0 +1,75 @@
+import React from 'react';
+import type { NamedVersion } from '@/types/supabase';
+import { withShareToken } from '@/lib/auth/document-access';
+import { formatDiffPoint, type DiffPoint } from '@/lib/diff/diff-points';
+
+interface VersionListProps {
+  documentId: string;
+  /** Named versions sorted by event_count ASC */
+  versions: NamedVersion[];
+  shareToken?: string | null;
+  className?: string;
+}
+
+/**
+ * VersionList Component
+ *
+ * Milestones the author tagged on the document's timeline, each linking
+ * to its changes in the diff view.
+ *
+ * Features:
+ * - Version name and tag date
+ * - Changes since the previous version (or the blank page)
+ * - Comparison with the final version
+ */
+export function VersionList({
+  documentId,
+  versions,
+  shareToken,
+  className = '',
+}: VersionListProps) {
+  if (versions.length === 0) return null;
+
+  const diffHref = (from: DiffPoint, to: DiffPoint) =>
+    withShareToken(
+      `/read/${documentId}/diff?from=${encodeURIComponent(formatDiffPoint(from))}&to=${encodeURIComponent(formatDiffPoint(to))}`,
+      shareToken
+    );
+
+  return (
+    <section className={`mb-8 ${className}`}>
+      <h2 className="text-sm font-medium text-gray-500 mb-3">Versions</h2>
+      <ol className="flex flex-col gap-2">
+        {versions.map((version, index) => {
+          const point: DiffPoint = { kind: 'version', id: version.id };
+          const previous: DiffPoint =
+            index > 0 ? { kind: 'version', id: versions[index - 1].id } : { kind: 'start' };
+
+          return (
+            <li
+              key={version.id}
+              className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm"
+            >
+              <span className="font-medium text-gray-900">⚑ {version.name}</span>
+              <span className="text-gray-500">
+                {new Date(version.created_at).toLocaleDateString('ko-KR')}
+              </span>
+              <a
+                href={diffHref(previous, point)}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                What changed
+              </a>
+              <a
+                href={diffHref(point, { kind: 'end' })}
+                className="text-blue-600 hover:text-blue-700"
+              >
+                Compare with final
+              </a>
+            </li>
+          );
+        })}
+      </ol>
+    </section>
+  );
+}
@@ -3,9 +3,12 @@
 import React from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { withShareToken } from '@/lib/auth/document-access';
 
 interface ViewModeToggleProps {
   documentId: string;
+  /** Share token for unlisted documents, carried across modes */
+  shareToken?: string | null;
   className?: string;
 }
 
@@ -19,9 +22,9 @@ type ViewMode = 'read' | 'playback' | 'diff';
  * Modes:
  * - Read: Final document content (default)
  * - Playback: Timeline animation of writing process
- * - Diff: Side-by-side comparison of first vs final draft
+ * - Diff: Side-by-side comparison of two points in the history
  */
-export function ViewModeToggle({ documentId, className = '' }: ViewModeToggleProps) {
+export function ViewModeToggle({ documentId, shareToken, className = '' }: ViewModeToggleProps) {
   const pathname = usePathname();
 
   // Determine current mode from pathname
@@ -37,20 +40,20 @@ export function ViewModeToggle({ documentId, className = '' }: ViewModeTogglePro
     {
       id: 'read' as ViewMode,
       label: '최종본',
-      href: `/read/${documentId}`,
+      href: withShareToken(`/read/${documentId}`, shareToken),
       description: 'Read final version',
     },
     {
       id: 'playback' as ViewMode,
       label: '타임라인 재생',
-      href: `/documents/${documentId}/playback`,
+      href: withShareToken(`/documents/${documentId}/playback`, shareToken),
       description: 'Watch writing process',
     },
     {
       id: 'diff' as ViewMode,
       label: '비교',
-      href: `/read/${documentId}/diff`,
-      description: 'Compare first vs final',
+      href: withShareToken(`/read/${documentId}/diff`, shareToken),
+      description: 'Compare two versions',
     },
   ];
 
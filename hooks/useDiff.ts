@@ -1,175 +1,261 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { compareTexts, type DiffResult } from '@/lib/diff/myers-diff';
-import type { WritingEvent } from '@/types/events';
-import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
+import type { DiffResult } from '@/lib/diff/myers-diff';
+import type { Checkpoint, WritingEvent } from '@/types/events';
+import type { NamedVersion } from '@/types/supabase';
+import { withShareToken } from '@/lib/auth/document-access';
+import { fetchEventPages } from '@/lib/event-sourcing/event-stream';
+import { groupSessions, type SessionRun } from '@/lib/event-sourcing/sessions';
+import {
+  DEFAULT_FROM_POINT,
+  DEFAULT_TO_POINT,
+  formatDiffPoint,
+  parseDiffPoint,
+  resolveDiffPoint,
+  type DiffPoint,
+  type DiffPointContext,
+  type DocumentVersion,
+} from '@/lib/diff/diff-points';
+import { DEFAULT_FIRST_DRAFT, type FirstDraftOptions } from '@/lib/diff/first-draft';
+import { ReplayService, isAbortError } from '@/lib/workers/replay-service';
 
-interface DocumentVersion {
-  /** Document ID */
-  documentId: string;
-  /** Version content */
-  content: string;
-  /** Version timestamp */
-  timestamp: number;
-  /** Version label */
-  label: 'first' | 'final';
-  /** Event count at this version */
-  eventCount: number;
-}
+const EMPTY_VERSIONS: NamedVersion[] = [];
 
 interface UseDiffOptions {
   /** Document ID to fetch versions for */
   documentId: string;
+  /** Share token for unlisted documents */
+  shareToken?: string | null;
+  /** Left side of the comparison (the first draft by default) */
+  from?: DiffPoint;
+  /** Right side of the comparison (the final version by default) */
+  to?: DiffPoint;
+  /** How `first-draft` points are picked */
+  firstDraft?: FirstDraftOptions;
+  /** Named versions, for `version` points and as first-draft marks */
+  versions?: NamedVersion[];
   /** Auto-fetch versions on mount */
   autoFetch?: boolean;
 }
 
 interface UseDiffReturn {
-  /** First version of the document */
-  firstVersion: DocumentVersion | null;
-  /** Final version of the document */
-  finalVersion: DocumentVersion | null;
-  /** Diff result between first and final versions */
+  /** Version at the `from` point */
+  fromVersion: DocumentVersion | null;
+  /** Version at the `to` point */
+  toVersion: DocumentVersion | null;
+  /** Diff result between the two versions */
   diffResult: DiffResult | null;
+  /** Full history in replay order (for picking points) */
+  events: WritingEvent[];
+  /** Session runs of the history */
+  sessions: SessionRun[];
   /** Loading state */
   loading: boolean;
   /** Error state */
   error: string | null;
-  /** Manually trigger version fetching */
+  /** Manually trigger history fetching */
   fetchVersions: () => Promise<void>;
   /** Manually trigger diff calculation */
-  calculateDiff: () => void;
+  calculateDiff: () => Promise<void>;
   /** Refresh everything */
   refresh: () => Promise<void>;
 }
 
+/**
+ * Build the content at a point
+ *
+ * Both run in the worker: time points replay by timestamp (same as
+ * `replayUpTo`), the others replay a prefix of the history, starting
+ * from the best checkpoint.
+ */
+function buildVersionContent(
+  events: WritingEvent[],
+  checkpoints: Checkpoint[],
+  point: DiffPoint,
+  eventCount: number,
+  signal: AbortSignal
+): Promise<string> {
+  if (point.kind === 'time') {
+    return ReplayService.buildContentAtTime(events, point.timestamp, checkpoints, { signal });
+  }
+  return ReplayService.buildContentUpToIndex(events, eventCount - 1, checkpoints, { signal });
+}
+
 /**
  * useDiff Hook
  * 
- * Fetches first and final versions of a document and calculates diff.
+ * Fetches a document's history and compares it at two points.
  * 
  * Features:
- * - Fetches document events via API
- * - Reconstructs first and final versions using event sourcing
+ * - Fetches document events and checkpoints via API
+ * - Resolves points given as event indices, timestamps, session ends or
+ *   named versions
+ * - Picks a real first draft by default (see `findFirstDraft`)
+ * - Reconstructs both versions using event sourcing
  * - Calculates diff using Myers algorithm
+ * - Replays and diffs in a worker (see ReplayService), cancelling stale work
  * - Handles loading and error states
  * - Supports manual refresh
  * 
  * Usage:
  * ```tsx
- * const { firstVersion, finalVersion, diffResult, loading } = useDiff({
- *   documentId: 'doc-123'
+ * const { fromVersion, toVersion, diffResult, loading } = useDiff({
+ *   documentId: 'doc-123',
+ *   from: { kind: 'session', number: 1 },
+ *   to: { kind: 'end' },
  * });
  * ```
  */
-export function useDiff({ documentId, autoFetch = true }: UseDiffOptions): UseDiffReturn {
-  const [firstVersion, setFirstVersion] = useState<DocumentVersion | null>(null);
-  const [finalVersion, setFinalVersion] = useState<DocumentVersion | null>(null);
+export function useDiff({
+  documentId,
+  shareToken,
+  from = DEFAULT_FROM_POINT,
+  to = DEFAULT_TO_POINT,
+  firstDraft = DEFAULT_FIRST_DRAFT,
+  versions = EMPTY_VERSIONS,
+  autoFetch = true,
+}: UseDiffOptions): UseDiffReturn {
+  const [events, setEvents] = useState<WritingEvent[]>([]);
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [fromVersion, setFromVersion] = useState<DocumentVersion | null>(null);
+  const [toVersion, setToVersion] = useState<DocumentVersion | null>(null);
   const [diffResult, setDiffResult] = useState<DiffResult | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [fetching, setFetching] = useState(false);
+  const [comparing, setComparing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
+  // Cancels the download superseded by a newer one
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  // Cancels the replay/diff of a comparison superseded by a newer one
+  const compareAbortRef = useRef<AbortController | null>(null);
+  
+  // Callers usually build points inline, so compare them by value
+  const fromKey = formatDiffPoint(from);
+  const toKey = formatDiffPoint(to);
+  const fromPoint = useMemo(() => parseDiffPoint(fromKey) ?? DEFAULT_FROM_POINT, [fromKey]);
+  const toPoint = useMemo(() => parseDiffPoint(toKey) ?? DEFAULT_TO_POINT, [toKey]);
+  const firstDraftKey = JSON.stringify(firstDraft);
+  const context = useMemo<DiffPointContext>(
+    () => ({ firstDraft: JSON.parse(firstDraftKey), versions }),
+    [firstDraftKey, versions]
+  );
+  
+  const sessions = useMemo(() => groupSessions(events), [events]);
+  
   /**
-   * Fetch document versions from API
+   * Fetch the document's history from the API
    */
   const fetchVersions = useCallback(async () => {
     if (!documentId) return;
     
-    setLoading(true);
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
+    const { signal } = controller;
+    
+    setFetching(true);
     setError(null);
     
     try {
-      // Fetch all events for the document
-      const response = await fetch(`/api/documents/${documentId}/events`);
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Document not found');
-        } else if (response.status === 403) {
-          throw new Error('You do not have permission to view this document');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`Failed to fetch events: ${response.statusText}`);
-        }
+      const history: WritingEvent[] = [];
+      for await (const batch of fetchEventPages(documentId, { shareToken, signal })) {
+        history.push(...batch.events);
       }
       
-      const data = await response.json();
-      const events: WritingEvent[] = data.events || [];
-      
-      if (events.length === 0) {
+      if (history.length === 0) {
         throw new Error('No events found for this document');
       }
       
-      // Sort events by timestamp
-      events.sort((a, b) => a.timestamp - b.timestamp);
-      
-      // Get first version (after first event)
-      const firstEvent = events[0];
-      const firstResult = EventSourcingEngine.replay([firstEvent]);
-      
-      const first: DocumentVersion = {
-        documentId,
-        content: firstResult.content,
-        timestamp: firstEvent.timestamp,
-        label: 'first',
-        eventCount: 1,
-      };
-      
-      // Get final version (after all events)
-      const finalResult = EventSourcingEngine.replay(events);
-      
-      const final: DocumentVersion = {
-        documentId,
-        content: finalResult.content,
-        timestamp: events[events.length - 1].timestamp,
-        label: 'final',
-        eventCount: events.length,
-      };
+      // Checkpoints only speed up replay, so carry on without them
+      let historyCheckpoints: Checkpoint[] = [];
+      const checkpointResponse = await fetch(
+        withShareToken(`/api/documents/${documentId}/checkpoints`, shareToken),
+        { signal }
+      );
+      if (checkpointResponse.ok) {
+        const checkpointData = await checkpointResponse.json();
+        historyCheckpoints = checkpointData.checkpoints || [];
+      }
       
-      setFirstVersion(first);
-      setFinalVersion(final);
-      
-      // Auto-calculate diff
-      const diff = compareTexts(first.content, final.content);
-      setDiffResult(diff);
+      setCheckpoints(historyCheckpoints);
+      setEvents(history);
       
     } catch (err) {
+      // A newer fetch (or unmount) took over
+      if (isAbortError(err)) return;
+      
       const message = err instanceof Error ? err.message : 'Unknown error occurred';
       setError(message);
       console.error('Error fetching versions:', err);
     } finally {
-      setLoading(false);
+      if (fetchAbortRef.current === controller) {
+        fetchAbortRef.current = null;
+        setFetching(false);
+      }
     }
-  }, [documentId]);
+  }, [documentId, shareToken]);
   
   /**
-   * Calculate diff between first and final versions
+   * Build both versions and calculate the diff between them
    */
-  const calculateDiff = useCallback(() => {
-    if (!firstVersion || !finalVersion) {
-      setError('Both versions must be loaded before calculating diff');
+  const calculateDiff = useCallback(async () => {
+    if (events.length === 0) {
+      setError('The history must be loaded before calculating diff');
       return;
     }
     
+    compareAbortRef.current?.abort();
+    const controller = new AbortController();
+    compareAbortRef.current = controller;
+    const { signal } = controller;
+    
+    setComparing(true);
+    setError(null);
+    
     try {
-      const diff = compareTexts(firstVersion.content, finalVersion.content);
+      const buildVersion = async (point: DiffPoint): Promise<DocumentVersion> => {
+        const resolution = resolveDiffPoint(events, sessions, point, context);
+        const content = await buildVersionContent(
+          events,
+          checkpoints,
+          point,
+          resolution.eventCount,
+          signal
+        );
+        return { documentId, point, content, ...resolution };
+      };
+      
+      const first = await buildVersion(fromPoint);
+      const final = await buildVersion(toPoint);
+      const diff = await ReplayService.diff(first.content, final.content, { signal });
+      
+      setFromVersion(first);
+      setToVersion(final);
       setDiffResult(diff);
-      setError(null);
+      
     } catch (err) {
+      // A newer comparison (or unmount) took over
+      if (isAbortError(err)) return;
+      
       const message = err instanceof Error ? err.message : 'Failed to calculate diff';
       setError(message);
       console.error('Error calculating diff:', err);
+    } finally {
+      if (compareAbortRef.current === controller) {
+        compareAbortRef.current = null;
+        setComparing(false);
+      }
     }
-  }, [firstVersion, finalVersion]);
+  }, [documentId, events, checkpoints, sessions, fromPoint, toPoint, context]);
   
   /**
    * Refresh everything
    */
   const refresh = useCallback(async () => {
-    setFirstVersion(null);
-    setFinalVersion(null);
+    compareAbortRef.current?.abort();
+    setFromVersion(null);
+    setToVersion(null);
     setDiffResult(null);
     await fetchVersions();
   }, [fetchVersions]);
@@ -181,11 +267,26 @@ export function useDiff({ documentId, autoFetch = true }: UseDiffOptions): UseDi
     }
   }, [autoFetch, documentId, fetchVersions]);
   
+  // Compare again whenever the history or either point changes
+  useEffect(() => {
+    if (events.length > 0) {
+      calculateDiff();
+    }
+  }, [events, calculateDiff]);
+  
+  // Stop background work on unmount
+  useEffect(() => () => {
+    fetchAbortRef.current?.abort();
+    compareAbortRef.current?.abort();
+  }, []);
+  
   return {
-    firstVersion,
-    finalVersion,
+    fromVersion,
+    toVersion,
     diffResult,
-    loading,
+    events,
+    sessions,
+    loading: fetching || comparing,
     error,
     fetchVersions,
     calculateDiff,
@@ -196,18 +297,20 @@ export function useDiff({ documentId, autoFetch = true }: UseDiffOptions): UseDi
 /**
  * Utility hook for getting document versions only (without diff)
  */
-export function useDocumentVersions(documentId: string) {
-  const { firstVersion, finalVersion, loading, error, fetchVersions, refresh } = useDiff({
+export function useDocumentVersions(documentId: string, from?: DiffPoint, to?: DiffPoint) {
+  const { fromVersion, toVersion, loading, error, fetchVersions, refresh } = useDiff({
     documentId,
+    from,
+    to,
     autoFetch: true,
   });
   
   return {
-    firstVersion,
-    finalVersion,
+    fromVersion,
+    toVersion,
     loading,
     error,
     fetchVersions,
     refresh,
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { loadEventHistory } from '@/lib/event-sourcing/event-stream';
+import {
+  LiveDocumentFollower,
+  createRealtimeChannel,
+  type LiveDocumentState,
+  type LiveEventChannel,
+} from '@/lib/event-sourcing/live';
+
+interface UseLiveDocumentOptions {
+  /** Document to follow */
+  documentId: string;
+  /** Content rendered by the server */
+  initialContent: string;
+  /** Seq of the last event in `initialContent` */
+  initialSeq: number;
+  /** Event source (defaults to Supabase Realtime; pass a mock in tests) */
+  channel?: LiveEventChannel;
+}
+
+/**
+ * useLiveDocument Hook
+ *
+ * Follows a document while its author is writing.
+ *
+ * Features:
+ * - Applies new events as they arrive over Supabase Realtime
+ * - Tracks the author's caret from their latest edit
+ * - Reconnects with backoff and catches up from the last seen event
+ */
+export function useLiveDocument({
+  documentId,
+  initialContent,
+  initialSeq,
+  channel,
+}: UseLiveDocumentOptions): LiveDocumentState {
+  const [state, setState] = useState<LiveDocumentState>({
+    content: initialContent,
+    cursorPosition: null,
+    lastSeq: initialSeq,
+    status: 'connecting',
+  });
+
+  useEffect(() => {
+    const follower = new LiveDocumentFollower({
+      channel: channel ?? createRealtimeChannel(createClient(), documentId),
+      fetchEventsAfter: async (seq) =>
+        (await loadEventHistory(documentId, { afterSeq: seq })).events,
+      initialContent,
+      initialSeq,
+      onChange: setState,
+    });
+
+    follower.start();
+    return () => follower.stop();
+  }, [documentId, initialContent, initialSeq, channel]);
+
+  return state;
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { NamedVersion } from '@/types/supabase';
+import { createNamedVersion, fetchNamedVersions } from '@/lib/event-sourcing/versions';
+import { isAbortError } from '@/lib/workers/replay-service';
+
+interface UseNamedVersionsOptions {
+  /** Document ID (nothing is fetched while empty) */
+  documentId: string | null | undefined;
+  /** Share token for unlisted documents */
+  shareToken?: string | null;
+}
+
+interface UseNamedVersionsReturn {
+  /** Versions sorted by event_count ASC */
+  versions: NamedVersion[];
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: string | null;
+  /** Tag a point (the whole synced history by default) */
+  createVersion: (name: string, eventCount?: number) => Promise<NamedVersion>;
+  /** Fetch the versions again */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * useNamedVersions Hook
+ *
+ * Named versions (milestones) an author tagged on a document's timeline.
+ *
+ * Usage:
+ * ```tsx
+ * const { versions, createVersion } = useNamedVersions({ documentId });
+ * await createVersion('Sent to editor');
+ * ```
+ */
+export function useNamedVersions({
+  documentId,
+  shareToken,
+}: UseNamedVersionsOptions): UseNamedVersionsReturn {
+  const [versions, setVersions] = useState<NamedVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Cancels the fetch superseded by a newer one
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!documentId) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setVersions(await fetchNamedVersions(documentId, shareToken, controller.signal));
+    } catch (err) {
+      if (isAbortError(err)) return;
+
+      const message = err instanceof Error ? err.message : 'Failed to load versions';
+      setError(message);
+      console.error('Error fetching versions:', err);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, [documentId, shareToken]);
+
+  const createVersion = useCallback(
+    async (name: string, eventCount?: number) => {
+      if (!documentId) {
+        throw new Error('No document to tag');
+      }
+
+      const version = await createNamedVersion(documentId, name, eventCount);
+      setVersions((previous) =>
+        [...previous, version].sort((a, b) => a.event_count - b.event_count)
+      );
+      return version;
+    },
+    [documentId]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Stop the request on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return { versions, loading, error, createVersion, refresh };
+}
@@ -1,28 +1,121 @@
 'use client';
 
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
-  replayEvents,
   replayEventsFromIndex,
-  getTotalDuration,
   formatDuration,
-  findEventIndexAtPlaybackTime,
-  buildContentUpToIndex,
   type ReplayFrame
 } from '@/lib/event-sourcing/replay';
+import { PlaybackIndex } from '@/lib/event-sourcing/playback-index';
+import {
+  findNextLongPause,
+  findNextSessionStart,
+  findStepTarget,
+  type StepUnit,
+} from '@/lib/event-sourcing/navigation';
+import {
+  findIdleGaps,
+  groupSessions,
+  sessionRange,
+  type IdleGap,
+  type SessionRun,
+} from '@/lib/event-sourcing/sessions';
+import {
+  createTimingStrategy,
+  DEFAULT_TIMING,
+  type TimingOptions,
+} from '@/lib/event-sourcing/timing';
+import { ReplayService, isAbortError } from '@/lib/workers/replay-service';
 import { delay } from '@/lib/utils/time';
-import type { WritingEvent } from '@/types/events';
+import type { Checkpoint, WritingEvent } from '@/types/events';
+import type { NamedVersion } from '@/types/supabase';
+
+/** Playback speed multiplier, between MIN_PLAYBACK_SPEED and MAX_PLAYBACK_SPEED */
+export type PlaybackSpeed = number;
 
-export type PlaybackSpeed = 0.5 | 1 | 2 | 4;
+export const MIN_PLAYBACK_SPEED = 0.25;
+export const MAX_PLAYBACK_SPEED = 64;
+
+/** Speeds the faster/slower shortcuts move between */
+export const SPEED_PRESETS: PlaybackSpeed[] = [
+  0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8, 12, 16, 24, 32, 48, 64,
+];
 
 export type PlaybackState = 'idle' | 'playing' | 'paused' | 'completed';
 
+const EMPTY_CHECKPOINTS: Checkpoint[] = [];
+const EMPTY_VERSIONS: NamedVersion[] = [];
+
+/**
+ * Clamp a speed to the supported range
+ */
+export function clampPlaybackSpeed(speed: number): PlaybackSpeed {
+  if (!Number.isFinite(speed)) return 1;
+  return Math.max(MIN_PLAYBACK_SPEED, Math.min(speed, MAX_PLAYBACK_SPEED));
+}
+
+/**
+ * Format a speed for display (e.g. "1.5x", "24x")
+ */
+export function formatPlaybackSpeed(speed: PlaybackSpeed): string {
+  return `${speed < 10 ? Number(speed.toFixed(2)) : Math.round(speed)}x`;
+}
+
+/**
+ * Next preset speed above or below a speed
+ *
+ * @param speed - Current speed (need not be a preset)
+ * @param direction - 1 for faster, -1 for slower
+ * @returns Preset speed (clamped at either end of the range)
+ */
+export function nextPlaybackSpeed(speed: PlaybackSpeed, direction: 1 | -1): PlaybackSpeed {
+  if (direction > 0) {
+    return SPEED_PRESETS.find((preset) => preset > speed) ?? MAX_PLAYBACK_SPEED;
+  }
+  return [...SPEED_PRESETS].reverse().find((preset) => preset < speed) ?? MIN_PLAYBACK_SPEED;
+}
+
+/**
+ * Session run placed on the timeline (times relative to its start, at the current speed)
+ */
+export interface TimelineSession extends SessionRun {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Idle gap placed on the timeline (where playback passes over it)
+ */
+export interface TimelineGap extends IdleGap {
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Named version placed on the timeline (at the event it was tagged after)
+ */
+export interface TimelineVersion extends NamedVersion {
+  eventIndex: number;
+  startMs: number;
+}
+
 export interface PlaybackControls {
   play: () => void;
   pause: () => void;
   stop: () => void;
   seek: (timeMs: number) => void;
+  /** Show the content after an event */
+  seekToEvent: (eventIndex: number) => void;
+  /** Step forward or back by an event, word or sentence (pauses playback) */
+  step: (direction: 1 | -1, unit?: StepUnit) => void;
+  /** Jump to the first event of the next writing session */
+  nextSession: () => void;
+  /** Jump to the last event before the next long pause */
+  nextLongPause: () => void;
   setSpeed: (speed: PlaybackSpeed) => void;
+  setTiming: (timing: TimingOptions) => void;
+  /** Limit playback to one session (by number), or null for all */
+  setSessionFilter: (sessionNumber: number | null) => void;
 }
 
 export interface PlaybackStatus {
@@ -32,127 +125,231 @@ export interface PlaybackStatus {
   currentFrame: ReplayFrame | null;
   progress: number;
   speed: PlaybackSpeed;
+  timing: TimingOptions;
   formattedTime: string;
   formattedTotalTime: string;
+  /** Progress (0-1) of a seek still being replayed, or null */
+  seekProgress: number | null;
+  /** Every session run, for picking a session */
+  sessionRuns: SessionRun[];
+  /** Session runs on the timeline (only the filtered session's, when filtered) */
+  sessions: TimelineSession[];
+  /** Idle gaps on the timeline */
+  idleGaps: TimelineGap[];
+  /** Named versions on the timeline */
+  versions: TimelineVersion[];
+  /** Session playback is limited to, or null */
+  sessionFilter: number | null;
 }
 
 interface UsePlaybackOptions {
   events: WritingEvent[];
+  /** Server checkpoints used to seek without replaying from the start */
+  checkpoints?: Checkpoint[];
+  /** Named versions to mark on the timeline */
+  versions?: NamedVersion[];
   onFrameUpdate?: (frame: ReplayFrame) => void;
   onComplete?: () => void;
 }
 
 export function usePlayback({
   events,
+  checkpoints = EMPTY_CHECKPOINTS,
+  versions = EMPTY_VERSIONS,
   onFrameUpdate,
   onComplete,
 }: UsePlaybackOptions): [PlaybackStatus, PlaybackControls] {
   const [state, setState] = useState<PlaybackState>('idle');
   const [speed, setSpeed] = useState<PlaybackSpeed>(1);
+  const [timing, setTiming] = useState<TimingOptions>(DEFAULT_TIMING);
   const [currentTimeMs, setCurrentTimeMs] = useState(0);
   const [currentFrame, setCurrentFrame] = useState<ReplayFrame | null>(null);
-  
-  const generatorRef = useRef<AsyncGenerator<ReplayFrame> | null>(null);
+  const [seekProgress, setSeekProgress] = useState<number | null>(null);
+  const [sessionFilter, setSessionFilter] = useState<number | null>(null);
+
   const abortControllerRef = useRef<AbortController | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const pausedTimeRef = useRef<number>(0);
-  
-  const totalTimeMs = getTotalDuration(events, speed);
+  const seekAbortRef = useRef<AbortController | null>(null);
+  // Read inside the playback loop, so changes apply from the next frame
+  const speedRef = useRef<PlaybackSpeed>(1);
+  // Frame on screen, and the event index last shown or being sought to
+  const frameRef = useRef<ReplayFrame | null>(null);
+  const positionRef = useRef(-1);
+  const resumeAfterTimingRef = useRef(false);
+
+  const timingStrategy = useMemo(() => createTimingStrategy(events, timing), [events, timing]);
+  // Built once per event list: seeking is a binary search, not a walk
+  const playbackIndex = useMemo(
+    () => new PlaybackIndex(events, { timing: timingStrategy }),
+    [events, timingStrategy]
+  );
+  const sessionRuns = useMemo(() => groupSessions(events), [events]);
+  const gaps = useMemo(() => findIdleGaps(events), [events]);
+
+  // Events playback covers: one session when filtered, otherwise all of them
+  const range = useMemo(() => {
+    const all = { startIndex: 0, endIndex: Math.max(0, events.length - 1) };
+    return sessionFilter === null ? all : sessionRange(sessionRuns, sessionFilter) ?? all;
+  }, [events.length, sessionRuns, sessionFilter]);
+  const previousRangeRef = useRef(range);
+
+  // The timeline starts at the range's first event
+  const rangeStartMs = playbackIndex.timeAt(range.startIndex);
+  const timeOf = useCallback(
+    (eventIndex: number) => (playbackIndex.timeAt(eventIndex) - rangeStartMs) / speedRef.current,
+    [playbackIndex, rangeStartMs]
+  );
+  const clampToRange = useCallback(
+    (eventIndex: number) => Math.max(range.startIndex, Math.min(eventIndex, range.endIndex)),
+    [range]
+  );
+
+  const totalTimeMs = (playbackIndex.timeAt(range.endIndex) - rangeStartMs) / speed;
   const progress = totalTimeMs > 0 ? (currentTimeMs / totalTimeMs) * 100 : 0;
-  
+
   const cleanup = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
-    generatorRef.current = null;
   }, []);
-  
+
+  const showFrame = useCallback((frame: ReplayFrame) => {
+    frameRef.current = frame;
+    positionRef.current = frame.eventIndex;
+    setCurrentFrame(frame);
+    setCurrentTimeMs(timeOf(frame.eventIndex));
+    onFrameUpdate?.(frame);
+  }, [timeOf, onFrameUpdate]);
+
   const play = useCallback(async () => {
-    if (state === 'playing' || events.length === 0) return;
-    
+    if (abortControllerRef.current || events.length === 0) return;
+
     setState('playing');
-    
+
     // Create new abort controller for this playback session
-    abortControllerRef.current = new AbortController();
-    const abortSignal = abortControllerRef.current.signal;
-    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const abortSignal = abortController.signal;
+
     try {
-      // Resume from paused position or start fresh
-      if (state === 'paused' && generatorRef.current) {
-        startTimeRef.current = Date.now() - pausedTimeRef.current;
-      } else {
-        generatorRef.current = replayEvents(events, speed);
-        startTimeRef.current = Date.now();
-        setCurrentTimeMs(0);
-      }
-      
-      // Playback loop
-      for await (const frame of generatorRef.current) {
+      // Resume after the frame on screen, or start from the beginning of the range
+      const resumeFrom = frameRef.current;
+      const resuming =
+        resumeFrom !== null &&
+        resumeFrom.eventIndex >= range.startIndex - 1 &&
+        resumeFrom.eventIndex < range.endIndex;
+      const startIndex = resuming ? resumeFrom.eventIndex + 1 : range.startIndex;
+      const initialContent = resuming
+        ? resumeFrom.content
+        : startIndex === 0
+          ? ''
+          : await ReplayService.buildContentUpToIndex(events, startIndex - 1, checkpoints, {
+              signal: abortSignal,
+            });
+
+      const generator = replayEventsFromIndex(
+        events,
+        startIndex,
+        initialContent,
+        1,
+        timingStrategy
+      );
+
+      // Playback loop (frames carry delays at 1x)
+      for await (const frame of generator) {
         if (abortSignal.aborted) break;
-        
-        // Update frame
-        setCurrentFrame(frame);
-        onFrameUpdate?.(frame);
-        
-        // Update time tracking
-        const elapsedMs = Date.now() - startTimeRef.current;
-        setCurrentTimeMs(elapsedMs);
-        
+
+        showFrame(frame);
+
+        // A session filter ends playback at the session's last event
+        if (frame.eventIndex >= range.endIndex) break;
+
         // Wait for next frame with abort check
         if (frame.delayMs > 0) {
-          await delay(frame.delayMs).catch(() => {
+          await delay(frame.delayMs / speedRef.current).catch(() => {
             // Cancelled during delay
           });
         }
-        
+
         if (abortSignal.aborted) break;
       }
-      
+
       // Playback completed
       if (!abortSignal.aborted) {
+        abortControllerRef.current = null;
         setState('completed');
-        setCurrentTimeMs(totalTimeMs);
+        setCurrentTimeMs(timeOf(range.endIndex));
         onComplete?.();
       }
     } catch (error) {
+      // Stopped while replaying up to the start
+      if (isAbortError(error)) return;
+
       console.error('Playback error:', error);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setState('idle');
       // Could add onError callback here if needed
     }
-  }, [state, events, speed, totalTimeMs, onFrameUpdate, onComplete]);
-  
+  }, [events, checkpoints, timingStrategy, range, timeOf, showFrame, onComplete]);
+
   const pause = useCallback(() => {
-    if (state !== 'playing') return;
-    
-    pausedTimeRef.current = Date.now() - startTimeRef.current;
+    if (!abortControllerRef.current) return;
+
     cleanup();
     setState('paused');
-  }, [state, cleanup]);
-  
+  }, [cleanup]);
+
   const stop = useCallback(() => {
     cleanup();
+    seekAbortRef.current?.abort();
     setState('idle');
     setCurrentTimeMs(0);
     setCurrentFrame(null);
-    pausedTimeRef.current = 0;
+    frameRef.current = null;
+    positionRef.current = -1;
   }, [cleanup]);
-  
-  const seek = useCallback((timeMs: number) => {
+
+  /**
+   * Show the content after an event, then pause or keep playing
+   *
+   * @param timeMs - Playhead position to show (defaults to the event's time)
+   */
+  const showEvent = useCallback(async (eventIndex: number, resume: boolean, timeMs?: number) => {
     if (events.length === 0) return;
 
-    // Clamp time to valid range
-    const clampedTime = Math.max(0, Math.min(timeMs, totalTimeMs));
+    const targetIndex = clampToRange(eventIndex);
 
     // Stop current playback
-    const wasPlaying = state === 'playing';
     cleanup();
 
-    // Find event index at target time
-    const targetIndex = findEventIndexAtPlaybackTime(events, clampedTime, speed);
+    // A newer seek (e.g. while scrubbing) replaces any still replaying
+    seekAbortRef.current?.abort();
+    const seekController = new AbortController();
+    seekAbortRef.current = seekController;
+    positionRef.current = targetIndex;
+    setCurrentTimeMs(timeMs ?? timeOf(targetIndex));
 
-    // Build content up to target index
-    const content = buildContentUpToIndex(events, targetIndex);
+    // Build content up to target index, off the main thread
+    let content: string;
+    try {
+      content = await ReplayService.buildContentUpToIndex(events, targetIndex, checkpoints, {
+        signal: seekController.signal,
+        onProgress: ({ completed, total }) =>
+          setSeekProgress(total > 0 ? completed / total : 1),
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Seek error:', error);
+      }
+      return;
+    } finally {
+      if (seekAbortRef.current === seekController) {
+        seekAbortRef.current = null;
+        setSeekProgress(null);
+      }
+    }
 
     // Create frame at target position
     const frame: ReplayFrame = {
@@ -161,48 +358,144 @@ export function usePlayback({
       eventIndex: targetIndex,
       totalEvents: events.length,
       progress: ((targetIndex + 1) / events.length) * 100,
-      delayMs: 0,
+      delayMs: playbackIndex.timeAt(targetIndex + 1) - playbackIndex.timeAt(targetIndex),
     };
 
-    // Update state
+    frameRef.current = frame;
     setCurrentFrame(frame);
-    setCurrentTimeMs(clampedTime);
     onFrameUpdate?.(frame);
 
-    // Create new generator from this point
-    generatorRef.current = replayEventsFromIndex(
-      events,
-      targetIndex + 1, // Start from next event
-      content,
-      speed
-    );
-
     // Set state based on whether we were playing
-    if (wasPlaying) {
-      setState('playing');
-      pausedTimeRef.current = clampedTime;
-      // Resume playback from new position
-      setTimeout(() => play(), 0);
-    } else {
-      setState('paused');
-      pausedTimeRef.current = clampedTime;
+    setState('paused');
+    if (resume) {
+      play();
     }
-  }, [events, totalTimeMs, state, speed, cleanup, onFrameUpdate, play]);
-  
+  }, [events, checkpoints, playbackIndex, clampToRange, timeOf, cleanup, onFrameUpdate, play]);
+
+  const seek = useCallback((timeMs: number) => {
+    if (events.length === 0) return;
+
+    // Clamp time to valid range
+    const clampedTime = Math.max(0, Math.min(timeMs, totalTimeMs));
+
+    // Find event index at target time
+    const targetIndex = playbackIndex.indexAtTime(clampedTime * speedRef.current + rangeStartMs);
+    showEvent(targetIndex, abortControllerRef.current !== null, clampedTime);
+  }, [events, playbackIndex, rangeStartMs, totalTimeMs, showEvent]);
+
+  const seekToEvent = useCallback((eventIndex: number) => {
+    showEvent(eventIndex, abortControllerRef.current !== null);
+  }, [showEvent]);
+
+  const step = useCallback((direction: 1 | -1, unit: StepUnit = 'event') => {
+    showEvent(findStepTarget(events, positionRef.current, direction, unit), false);
+  }, [events, showEvent]);
+
+  const nextSession = useCallback(() => {
+    const target = findNextSessionStart(events, positionRef.current);
+    if (target !== -1 && target <= range.endIndex) {
+      seekToEvent(target);
+    }
+  }, [events, range, seekToEvent]);
+
+  const nextLongPause = useCallback(() => {
+    const target = findNextLongPause(events, positionRef.current);
+    if (target !== -1 && target <= range.endIndex) {
+      seekToEvent(target);
+    }
+  }, [events, range, seekToEvent]);
+
   const handleSetSpeed = useCallback((newSpeed: PlaybackSpeed) => {
-    setSpeed(newSpeed);
-    // If playing, restart with new speed
-    if (state === 'playing') {
-      stop();
-      setTimeout(() => play(), 0);
+    const clampedSpeed = clampPlaybackSpeed(newSpeed);
+    // Same position on a timeline of a different length
+    const previousSpeed = speedRef.current;
+    setCurrentTimeMs((time) => (time * previousSpeed) / clampedSpeed);
+    speedRef.current = clampedSpeed;
+    setSpeed(clampedSpeed);
+  }, []);
+
+  const handleSetTiming = useCallback((newTiming: TimingOptions) => {
+    // Frames carry the old timing: pause, and resume once the new one applies
+    if (abortControllerRef.current) {
+      cleanup();
+      resumeAfterTimingRef.current = true;
+    }
+    setTiming(newTiming);
+  }, [cleanup]);
+
+  // Timing, events or the session filter changed: keep the playhead on its event
+  useEffect(() => {
+    if (positionRef.current >= 0) {
+      setCurrentTimeMs(timeOf(positionRef.current));
+    }
+  }, [timeOf]);
+
+  // Filtered to a session the playhead isn't in: go to its start
+  useEffect(() => {
+    if (previousRangeRef.current === range) return;
+    previousRangeRef.current = range;
+
+    const position = positionRef.current;
+    if (position !== -1 && (position < range.startIndex || position > range.endIndex)) {
+      showEvent(range.startIndex, false);
+    }
+  }, [range, showEvent]);
+
+  const timelineSessions = useMemo<TimelineSession[]>(() => {
+    const at = (eventIndex: number) => (playbackIndex.timeAt(eventIndex) - rangeStartMs) / speed;
+
+    return sessionRuns
+      .filter((run) => run.endIndex >= range.startIndex && run.startIndex <= range.endIndex)
+      .map((run) => ({
+        ...run,
+        startMs: at(Math.max(run.startIndex, range.startIndex)),
+        // A run lasts until the next event is shown
+        endMs: at(Math.min(run.endIndex + 1, range.endIndex)),
+      }));
+  }, [sessionRuns, playbackIndex, range, rangeStartMs, speed]);
+
+  const timelineGaps = useMemo<TimelineGap[]>(() => {
+    const at = (eventIndex: number) => (playbackIndex.timeAt(eventIndex) - rangeStartMs) / speed;
+
+    return gaps
+      .filter((gap) => gap.afterIndex >= range.startIndex && gap.afterIndex < range.endIndex)
+      .map((gap) => ({
+        ...gap,
+        startMs: at(gap.afterIndex),
+        endMs: at(gap.afterIndex + 1),
+      }));
+  }, [gaps, playbackIndex, range, rangeStartMs, speed]);
+
+  const timelineVersions = useMemo<TimelineVersion[]>(() => {
+    if (events.length === 0) return [];
+
+    return versions
+      .map((version) => ({
+        ...version,
+        eventIndex: Math.min(Math.max(version.event_count - 1, 0), events.length - 1),
+      }))
+      .filter((version) => version.eventIndex >= range.startIndex && version.eventIndex <= range.endIndex)
+      .map((version) => ({
+        ...version,
+        startMs: (playbackIndex.timeAt(version.eventIndex) - rangeStartMs) / speed,
+      }));
+  }, [versions, events.length, playbackIndex, range, rangeStartMs, speed]);
+
+  useEffect(() => {
+    if (resumeAfterTimingRef.current) {
+      resumeAfterTimingRef.current = false;
+      play();
     }
-  }, [state, play, stop]);
-  
+  }, [play]);
+
   // Cleanup on unmount
   useEffect(() => {
-    return cleanup;
+    return () => {
+      cleanup();
+      seekAbortRef.current?.abort();
+    };
   }, [cleanup]);
-  
+
   const status: PlaybackStatus = {
     state,
     currentTimeMs,
@@ -210,17 +503,30 @@ export function usePlayback({
     currentFrame,
     progress,
     speed,
+    timing,
     formattedTime: formatDuration(currentTimeMs),
     formattedTotalTime: formatDuration(totalTimeMs),
+    seekProgress,
+    sessionRuns,
+    sessions: timelineSessions,
+    idleGaps: timelineGaps,
+    versions: timelineVersions,
+    sessionFilter,
   };
-  
+
   const controls: PlaybackControls = {
     play,
     pause,
     stop,
     seek,
+    seekToEvent,
+    step,
+    nextSession,
+    nextLongPause,
     setSpeed: handleSetSpeed,
+    setTiming: handleSetTiming,
+    setSessionFilter,
   };
-  
+
   return [status, controls];
-}
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect } from 'react';
+import {
+  nextPlaybackSpeed,
+  type PlaybackControls,
+  type PlaybackStatus,
+} from './usePlayback';
+
+/** How far J / L seek */
+const SEEK_STEP_MS = 10_000;
+
+/**
+ * Playback shortcuts, for listing in the player
+ */
+export const PLAYBACK_SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'Space / K', action: 'Play or pause' },
+  { keys: 'J / L', action: 'Back or forward 10 seconds' },
+  { keys: '← / →', action: 'Previous or next event' },
+  { keys: 'Alt + ← / →', action: 'Previous or next word' },
+  { keys: 'Shift + ← / →', action: 'Previous or next sentence' },
+  { keys: '< / >', action: 'Slower or faster' },
+  { keys: 'Home / End', action: 'Start or end' },
+  { keys: 'N', action: 'Next session' },
+  { keys: 'P', action: 'Next long pause' },
+];
+
+/**
+ * Keyboard shortcuts for a playback player
+ *
+ * Listens on the window, ignoring keys typed into form fields and
+ * keys pressed with Ctrl/Cmd (left to the browser).
+ *
+ * @param status - Playback status from usePlayback
+ * @param controls - Playback controls from usePlayback
+ * @param enabled - Turn the shortcuts off (e.g. while a dialog is open)
+ */
+export function usePlaybackShortcuts(
+  status: PlaybackStatus,
+  controls: PlaybackControls,
+  enabled: boolean = true
+): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.metaKey || e.ctrlKey || isEditable(e.target)) {
+        return;
+      }
+
+      const handled = handleShortcut(e, status, controls);
+      if (handled) {
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status, controls, enabled]);
+}
+
+/**
+ * Run the action bound to a key
+ *
+ * @returns Whether the key was a shortcut
+ */
+function handleShortcut(
+  e: KeyboardEvent,
+  status: PlaybackStatus,
+  controls: PlaybackControls
+): boolean {
+  switch (e.key) {
+    case ' ':
+    case 'k':
+    case 'K':
+      if (status.state === 'playing') {
+        controls.pause();
+      } else {
+        controls.play();
+      }
+      return true;
+
+    case 'j':
+    case 'J':
+      controls.seek(status.currentTimeMs - SEEK_STEP_MS);
+      return true;
+
+    case 'l':
+    case 'L':
+      controls.seek(status.currentTimeMs + SEEK_STEP_MS);
+      return true;
+
+    case 'ArrowLeft':
+    case 'ArrowRight': {
+      const direction = e.key === 'ArrowRight' ? 1 : -1;
+      controls.step(direction, e.shiftKey ? 'sentence' : e.altKey ? 'word' : 'event');
+      return true;
+    }
+
+    case '<':
+    case '>':
+      controls.setSpeed(nextPlaybackSpeed(status.speed, e.key === '>' ? 1 : -1));
+      return true;
+
+    case 'Home':
+      controls.seekToEvent(0);
+      return true;
+
+    case 'End':
+      controls.seekToEvent(Number.MAX_SAFE_INTEGER);
+      return true;
+
+    case 'n':
+    case 'N':
+      controls.nextSession();
+      return true;
+
+    case 'p':
+    case 'P':
+      controls.nextLongPause();
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.tagName === 'SELECT'
+  );
+}
@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Document } from '@/types/supabase';
+
+/**
+ * Query parameter carrying an unlisted document's share token
+ */
+export const SHARE_TOKEN_PARAM = 'token';
+
+/**
+ * Request header forwarded to PostgREST so RLS can check the share token
+ * (read by `request_share_token()` in migration 008)
+ */
+export const SHARE_TOKEN_HEADER = 'x-share-token';
+
+type AccessFields = Pick<Document, 'user_id' | 'visibility'>;
+
+/**
+ * Check whether a reader may view a document
+ *
+ * - Owners can read any of their documents
+ * - Anyone can read public documents
+ * - Unlisted documents require the matching share token
+ *
+ * Share tokens are only readable by owners (migration 008), so the token
+ * itself is matched by RLS: a non-owner only gets an unlisted document's
+ * row when the request carried its token.
+ *
+ * @param document - Document access fields, as returned under RLS
+ * @param userId - Current user ID (null/undefined when logged out)
+ * @param shareToken - Share token from the request URL
+ * @returns Whether the document is readable
+ */
+export function canReadDocument(
+  document: AccessFields,
+  userId: string | null | undefined,
+  shareToken: string | null | undefined
+): boolean {
+  if (userId && document.user_id === userId) return true;
+  if (document.visibility === 'public') return true;
+
+  return document.visibility === 'unlisted' && !!shareToken;
+}
+
+/**
+ * Fetch the share tokens of documents
+ *
+ * @param supabase - Supabase client (only owners can read tokens)
+ * @param documentIds - Document IDs
+ * @returns Share token by document ID (missing where not readable)
+ */
+export async function fetchShareTokens(
+  supabase: SupabaseClient<Database>,
+  documentIds: string[]
+): Promise<Map<string, string>> {
+  if (documentIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('document_share_tokens')
+    .select('document_id, share_token')
+    .in('document_id', documentIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map((data ?? []).map((row) => [row.document_id, row.share_token]));
+}
+
+/**
+ * Build a reader URL, carrying the share token when there is one
+ *
+ * @param path - Reader path (e.g. `/read/<id>`)
+ * @param shareToken - Share token to append
+ * @returns URL path with `?token=` when needed
+ */
+export function withShareToken(path: string, shareToken?: string | null): string {
+  if (!shareToken) return path;
+
+  const separator = path.includes('?') ? '&' : '?';
+  return `${path}${separator}${SHARE_TOKEN_PARAM}=${encodeURIComponent(shareToken)}`;
+}
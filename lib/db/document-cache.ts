@@ -0,0 +1,179 @@
+import Dexie from 'dexie';
+import { db, type CachedDocument } from './schema';
+import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { fetchEventPages } from '@/lib/event-sourcing/event-stream';
+import type { Document } from '@/types/supabase';
+import { Logger } from '@/lib/utils/error-handler';
+
+/**
+ * Where bootstrapped content came from
+ *
+ * - cache: Local cache (matched the server, or the server was unreachable)
+ * - server: Server replay plus unsynced local events (cache was stale)
+ * - empty: No history anywhere (new document)
+ */
+export type ContentSource = 'cache' | 'server' | 'empty';
+
+/**
+ * Content Bootstrap Result
+ */
+export interface ContentBootstrapResult {
+  /** Content to seed the editor with */
+  content: string;
+  /** Where the content came from */
+  source: ContentSource;
+  /** Whether the cache disagreed with the server and was overwritten */
+  reconciled: boolean;
+}
+
+/**
+ * Document Cache Manager
+ *
+ * Keeps `CachedDocument.cached_content` in IndexedDB in step with the
+ * editor and restores it when a document is reopened.
+ *
+ * Reconciliation rule: the server history plus this device's unsynced
+ * events is the source of truth. The cache is used as-is when it agrees
+ * with that, or when the server cannot be reached. If other devices
+ * added events on top of the history the unsynced events were recorded
+ * against, the cache is kept until the next sync rebases them.
+ */
+export class DocumentCache {
+  /**
+   * Load the latest content for a document
+   *
+   * @param document - Document metadata from the API
+   * @returns Content to seed the editor with
+   */
+  static async bootstrap(document: Document): Promise<ContentBootstrapResult> {
+    const cached = await db.documents.where('id').equals(document.id).first();
+    const cachedContent = cached?.cached_content ?? null;
+
+    let serverContent: string;
+    let serverHeadSeq: number;
+    try {
+      ({ content: serverContent, headSeq: serverHeadSeq } = await this.fetchServerContent(
+        document
+      ));
+    } catch (error) {
+      Logger.warn('DocumentCache: server replay unavailable, using cache', {
+        documentId: document.id,
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        content: cachedContent ?? '',
+        source: cachedContent ? 'cache' : 'empty',
+        reconciled: false,
+      };
+    }
+
+    // Events typed on this device that the server hasn't seen yet (and
+    // hasn't refused: those would not apply to its history)
+    const pendingEvents = await db.events
+      .where('[document_id+local_seq]')
+      .between([document.id, Dexie.minKey], [document.id, Dexie.maxKey])
+      .filter((event) => !event.synced && !event.rejected)
+      .toArray();
+
+    // Unsynced events recorded against an older history can't simply be
+    // applied to the new one: keep the cached content (and its base) so
+    // the next sync rebases them and catches up with the other devices
+    const baseSeq = cached?.head_seq ?? null;
+    if (
+      pendingEvents.length > 0 &&
+      cachedContent !== null &&
+      baseSeq !== null &&
+      baseSeq < serverHeadSeq
+    ) {
+      Logger.info('DocumentCache: document changed elsewhere, rebasing on next sync', {
+        documentId: document.id,
+        baseSeq,
+        serverHeadSeq,
+      });
+      await this.save(document, cachedContent, baseSeq);
+      return { content: cachedContent, source: 'cache', reconciled: false };
+    }
+
+    const content = EventSourcingEngine.applyEvents(serverContent, pendingEvents);
+    const reconciled = cachedContent !== null && cachedContent !== content;
+
+    if (reconciled) {
+      Logger.warn('DocumentCache: cached content was stale, using server replay', {
+        documentId: document.id,
+        cachedLength: cachedContent.length,
+        serverLength: content.length,
+      });
+    }
+
+    await this.save(document, content, serverHeadSeq);
+
+    let source: ContentSource = 'server';
+    if (content.length === 0) {
+      source = 'empty';
+    } else if (cachedContent !== null && !reconciled) {
+      source = 'cache';
+    }
+
+    return { content, source, reconciled };
+  }
+
+  /**
+   * Update cached content after a local edit
+   *
+   * No-op if the document has not been bootstrapped on this device.
+   *
+   * @param documentId - Document ID
+   * @param content - Current editor content
+   */
+  static async saveContent(documentId: string, content: string): Promise<void> {
+    await db.documents.where('id').equals(documentId).modify({ cached_content: content });
+  }
+
+  /**
+   * Replay the server history from its latest checkpoint
+   *
+   * @returns Content and the seq of the last event it includes
+   */
+  private static async fetchServerContent(
+    document: Document
+  ): Promise<{ content: string; headSeq: number }> {
+    let content: string | null = null;
+    // Fallback when everything is folded into the checkpoint
+    let headSeq = document.event_seq ?? 0;
+
+    for await (const batch of fetchEventPages(document.id, { fromCheckpoint: true })) {
+      content = EventSourcingEngine.applyEvents(
+        content ?? batch.checkpoint?.full_content ?? '',
+        batch.events
+      );
+      headSeq = batch.events[batch.events.length - 1]?.seq ?? headSeq;
+    }
+
+    return { content: content ?? '', headSeq };
+  }
+
+  /**
+   * Write document metadata and content to the cache
+   */
+  private static async save(
+    document: Document,
+    content: string,
+    headSeq: number
+  ): Promise<void> {
+    const entry: CachedDocument = {
+      id: document.id,
+      user_id: document.user_id,
+      title: document.title,
+      status: document.status,
+      visibility: document.visibility,
+      created_at: document.created_at,
+      updated_at: document.updated_at,
+      last_edited_at: document.last_edited_at,
+      cached_content: content,
+      last_synced_at: new Date().toISOString(),
+      head_seq: headSeq,
+    };
+
+    await db.documents.put(entry);
+  }
+}
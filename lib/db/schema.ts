@@ -19,6 +19,11 @@ export interface CachedDocument {
   cached_content: string | null;
   /** Last sync timestamp */
   last_synced_at: string | null;
+  /**
+   * Server seq that `cached_content` minus unsynced local events is based
+   * on; sent as `base_seq` so offline batches can be rebased
+   */
+  head_seq?: number | null;
 }
 
 /**
@@ -74,6 +79,28 @@ export class WritingTimelineDB extends Dexie {
       // Primary key: document_id
       syncStatus: 'document_id, is_syncing, last_sync_at',
     });
+
+    // Schema version 2
+    // Adds local_seq: per-document recording order on this device
+    this.version(2)
+      .stores({
+        events:
+          'id, document_id, [document_id+synced], [document_id+timestamp], [document_id+local_seq], session_id, synced, queued_at',
+      })
+      .upgrade(async (tx) => {
+        // Number existing events in their previous (timestamp) order
+        const events = await tx.table<QueuedEvent, 'id'>('events').toArray();
+        const nextSeq = new Map<string, number>();
+
+        events.sort((a, b) => a.timestamp - b.timestamp);
+        for (const event of events) {
+          const seq = (nextSeq.get(event.document_id) ?? 0) + 1;
+          nextSeq.set(event.document_id, seq);
+          event.local_seq = seq;
+        }
+
+        await tx.table<QueuedEvent, 'id'>('events').bulkPut(events);
+      });
   }
 }
 
@@ -115,13 +142,13 @@ export const dbUtils = {
   },
 
   /**
-   * Get pending events count for a document
+   * Get pending events count for a document (rejected ones excluded)
    */
   async getPendingCount(documentId: string): Promise<number> {
     return await db.events
       .where('document_id')
       .equals(documentId)
-      .and(event => !event.synced)
+      .and(event => !event.synced && !event.rejected)
       .count();
   },
 
@@ -1,12 +1,48 @@
+import Dexie from 'dexie';
 import { db } from './schema';
 import type {
   QueuedEvent,
+  WritingEvent,
   WritingEventInsert,
   EventBatchRequest,
   EventBatchResponse,
+  EventRejection,
 } from '@/types/events';
+import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { rebaseEvents } from '@/lib/event-sourcing/transform';
 import { Logger, handleNetworkError, handleUnexpectedError } from '@/lib/utils/error-handler';
 
+/**
+ * Called with edits from other devices that were merged into a document
+ */
+export type RemoteEventsListener = (events: WritingEvent[]) => void;
+
+/**
+ * Called when a document starts (`true`) and finishes (`false`) merging in
+ * edits from other devices
+ *
+ * Local edits must be held back in between: the queue is rebased against
+ * the events stored when the merge began, so anything queued later would
+ * keep positions from before the merge. Held edits are rebased over the
+ * events passed to the remote listeners, then queued.
+ */
+export type CatchUpListener = (catchingUp: boolean) => void;
+
+/**
+ * Called when a document's local edits were dropped because they no
+ * longer match the server's history
+ */
+export type ResyncListener = () => void;
+
+/** Rejections meaning the local text has drifted from the server's */
+const DRIFT_CODES: ReadonlySet<EventRejection['code']> = new Set([
+  'position_out_of_range',
+  'content_mismatch',
+  'depends_on_rejected',
+]);
+
+type Rejected = { id: string; reason?: string; rejection?: EventRejection };
+
 /**
  * Sync Queue Manager
  *
@@ -17,30 +53,24 @@ import { Logger, handleNetworkError, handleUnexpectedError } from '@/lib/utils/e
  * - Retries failed syncs with exponential backoff
  * - Maintains order and atomicity
  * - Handles offline/online transitions
+ * - Rebases offline edits over edits made on other devices
  */
 export class SyncQueueManager {
   private static readonly BATCH_SIZE = 50;
   private static readonly MAX_RETRIES = 5;
   private static readonly INITIAL_RETRY_DELAY = 1000; // 1 second
 
+  private static remoteListeners = new Map<string, Set<RemoteEventsListener>>();
+  private static resyncListeners = new Map<string, Set<ResyncListener>>();
+  private static catchUpListeners = new Map<string, Set<CatchUpListener>>();
+
   /**
    * Add a new event to the local queue
    *
    * @param event - Event to queue
    */
   static async enqueue(event: WritingEventInsert): Promise<void> {
-    const queuedEvent: QueuedEvent = {
-      ...event,
-      id: event.id || crypto.randomUUID(),
-      synced: false,
-      queued_at: new Date().toISOString(),
-      retry_count: 0,
-    };
-
-    await db.events.add(queuedEvent);
-
-    // Update sync status
-    await this.updateSyncStatus(event.document_id);
+    await this.enqueueBatch([event]);
   }
 
   /**
@@ -49,15 +79,29 @@ export class SyncQueueManager {
    * @param events - Events to queue
    */
   static async enqueueBatch(events: WritingEventInsert[]): Promise<void> {
-    const queuedEvents: QueuedEvent[] = events.map((event) => ({
-      ...event,
-      id: event.id || crypto.randomUUID(),
-      synced: false,
-      queued_at: new Date().toISOString(),
-      retry_count: 0,
-    }));
+    // Read the last local_seq and add in one transaction, so concurrent
+    // enqueues (fast typing) never hand out the same number twice
+    await db.transaction('rw', db.events, async () => {
+      const nextSeq = new Map<string, number>();
+      const queuedEvents: QueuedEvent[] = [];
+
+      for (const event of events) {
+        const seq =
+          (nextSeq.get(event.document_id) ?? (await this.lastLocalSeq(event.document_id))) + 1;
+        nextSeq.set(event.document_id, seq);
+
+        queuedEvents.push({
+          ...event,
+          id: event.id || crypto.randomUUID(),
+          local_seq: seq,
+          synced: false,
+          queued_at: new Date().toISOString(),
+          retry_count: 0,
+        });
+      }
 
-    await db.events.bulkAdd(queuedEvents);
+      await db.events.bulkAdd(queuedEvents);
+    });
 
     // Update sync status for all affected documents
     const documentIds = new Set(events.map((e) => e.document_id));
@@ -66,23 +110,42 @@ export class SyncQueueManager {
     }
   }
 
+  /**
+   * Get the highest local_seq recorded for a document on this device
+   *
+   * Synced events stay in the table, so numbering continues across syncs.
+   */
+  private static async lastLocalSeq(documentId: string): Promise<number> {
+    const last = await db.events
+      .where('[document_id+local_seq]')
+      .between([documentId, Dexie.minKey], [documentId, Dexie.maxKey])
+      .last();
+
+    return last?.local_seq ?? 0;
+  }
+
   /**
    * Get pending events for a document
    *
+   * Events are returned in recording order: the server numbers each
+   * batch in the order it receives it, so this order becomes `seq`.
+   * Rejected events are left out: they never sync, and would otherwise
+   * fill every batch.
+   *
    * @param documentId - Document ID
    * @param limit - Maximum number of events to fetch
-   * @returns Array of pending events sorted by timestamp
+   * @returns Array of pending events sorted by local_seq
    */
   static async getPending(
     documentId: string,
     limit: number = this.BATCH_SIZE
   ): Promise<QueuedEvent[]> {
     return await db.events
-      .where('document_id')
-      .equals(documentId)
-      .and(event => !event.synced)
-      .sortBy('timestamp')
-      .then((events) => events.slice(0, limit));
+      .where('[document_id+local_seq]')
+      .between([documentId, Dexie.minKey], [documentId, Dexie.maxKey])
+      .filter((event) => !event.synced && !event.rejected)
+      .limit(limit)
+      .toArray();
   }
 
   /**
@@ -94,6 +157,60 @@ export class SyncQueueManager {
     await db.events.where('id').anyOf(eventIds).modify({ synced: true });
   }
 
+  /**
+   * Stop retrying events the server rejected
+   *
+   * Rejected events stay in the queue (for inspection and
+   * `clearFailedEvents`) but are excluded from future syncs.
+   *
+   * @param rejected - Rejected event IDs with the server's reason
+   */
+  static async markRejected(rejected: Rejected[]): Promise<void> {
+    const reasons = new Map(rejected.map((r) => [r.id, r.reason]));
+
+    await db.events.where('id').anyOf([...reasons.keys()]).modify((event) => {
+      event.rejected = true;
+      event.retry_count = this.MAX_RETRIES;
+      event.last_error = `Rejected: ${reasons.get(event.id) ?? 'invalid event'}`;
+    });
+  }
+
+  /**
+   * Split a batch response into synced and rejected events
+   *
+   * Older responses without per-event results fall back to
+   * `failed_events`; everything else in the batch counts as synced.
+   */
+  private static partitionResults(
+    sent: QueuedEvent[],
+    result: EventBatchResponse
+  ): { syncedIds: string[]; rejected: Rejected[] } {
+    if (result.results) {
+      const syncedIds: string[] = [];
+      const rejected: Rejected[] = [];
+
+      for (const eventResult of result.results) {
+        if (eventResult.status === 'rejected') {
+          rejected.push({
+            id: eventResult.id,
+            reason: eventResult.reason,
+            rejection: eventResult.rejection,
+          });
+        } else {
+          syncedIds.push(eventResult.id);
+        }
+      }
+
+      return { syncedIds, rejected };
+    }
+
+    const failed = new Set(result.failed_events ?? []);
+    return {
+      syncedIds: sent.map((e) => e.id).filter((id) => !failed.has(id)),
+      rejected: [...failed].map((id) => ({ id })),
+    };
+  }
+
   /**
    * Increment retry count for failed events
    *
@@ -151,9 +268,14 @@ export class SyncQueueManager {
         return false;
       }
 
+      // The history these events were recorded against (unknown if the
+      // document was never bootstrapped on this device)
+      const cached = await db.documents.where('id').equals(documentId).first();
+
       // Prepare batch request
       const batch: EventBatchRequest = {
         document_id: documentId,
+        base_seq: cached?.head_seq ?? undefined,
         events: eventsToSync.map((e) => ({
           id: e.id,
           document_id: e.document_id,
@@ -185,8 +307,14 @@ export class SyncQueueManager {
         ok: response.ok
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
+      // A 400 still carries per-event results when every event was rejected
+      const result: EventBatchResponse | null =
+        response.ok || response.status === 400
+          ? await response.json().catch(() => null)
+          : null;
+
+      if (!response.ok && !result?.results) {
+        const errorText = result?.error ?? (await response.text().catch(() => ''));
         Logger.error('SyncQueueManager: Server error response', null, { 
           status: response.status, 
           statusText: response.statusText, 
@@ -196,26 +324,44 @@ export class SyncQueueManager {
         throw new Error(`Sync failed: ${response.status} ${response.statusText} - ${errorText}`);
       }
 
-      const result: EventBatchResponse = await response.json();
+      if (!result || (!result.success && !result.results)) {
+        throw new Error(result?.error || 'Sync failed');
+      }
 
-      if (result.success) {
-        // Mark events as synced
-        await this.markSynced(eventsToSync.map((e) => e.id));
+      const { syncedIds, rejected } = this.partitionResults(eventsToSync, result);
 
-        // Update sync status
-        await db.syncStatus.put({
-          document_id: documentId,
-          pending_count: await this.getPendingCount(documentId),
-          is_syncing: false,
-          last_sync_at: new Date().toISOString(),
-          last_error: null,
-          retry_count: 0,
+      // Inserted and duplicate events are both stored on the server
+      await this.markSynced(syncedIds);
+
+      // Rejected events will never be accepted, so stop retrying them
+      if (rejected.length > 0) {
+        Logger.warn('SyncQueueManager: Server rejected events', {
+          documentId,
+          rejected,
         });
+        await this.markRejected(rejected);
+      }
 
-        return true;
-      } else {
-        throw new Error(result.error || 'Sync failed');
+      // Events that don't apply to the server's text mean this device's
+      // copy has drifted: rebasing or retrying can't fix that
+      if (rejected.some((r) => r.rejection && DRIFT_CODES.has(r.rejection.code))) {
+        await this.resync(documentId);
+      } else if (result.head_seq !== undefined) {
+        await this.catchUp(documentId, result.head_seq, result.concurrent_events ?? []);
       }
+
+      // Update sync status
+      await db.syncStatus.put({
+        document_id: documentId,
+        pending_count: await this.getPendingCount(documentId),
+        is_syncing: false,
+        last_sync_at: new Date().toISOString(),
+        last_error:
+          rejected.length > 0 ? `${rejected.length} event(s) rejected by server` : null,
+        retry_count: 0,
+      });
+
+      return true;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
@@ -245,13 +391,189 @@ export class SyncQueueManager {
   }
 
   /**
-   * Get count of pending events for a document
+   * Subscribe to edits from other devices merged in during sync
+   *
+   * @param documentId - Document ID
+   * @param listener - Receives events to apply to the current content
+   * @returns Unsubscribe function
+   */
+  static onRemoteEvents(documentId: string, listener: RemoteEventsListener): () => void {
+    const listeners = this.remoteListeners.get(documentId) ?? new Set();
+    listeners.add(listener);
+    this.remoteListeners.set(documentId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.remoteListeners.delete(documentId);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to catch-ups of a document
+   *
+   * @param documentId - Document ID
+   * @param listener - Told when a merge of remote edits starts and ends
+   * @returns Unsubscribe function
+   */
+  static onCatchUp(documentId: string, listener: CatchUpListener): () => void {
+    const listeners = this.catchUpListeners.get(documentId) ?? new Set();
+    listeners.add(listener);
+    this.catchUpListeners.set(documentId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.catchUpListeners.delete(documentId);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to resyncs of a document
+   *
+   * @param documentId - Document ID
+   * @param listener - Called once local edits were dropped; the document
+   * should be reloaded from the server
+   * @returns Unsubscribe function
+   */
+  static onResyncRequired(documentId: string, listener: ResyncListener): () => void {
+    const listeners = this.resyncListeners.get(documentId) ?? new Set();
+    listeners.add(listener);
+    this.resyncListeners.set(documentId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.resyncListeners.delete(documentId);
+      }
+    };
+  }
+
+  /**
+   * Drop local state that no longer matches the server's history
+   *
+   * Everything still queued was typed on top of the rejected events, so
+   * it is rejected too (and kept for inspection like other rejected
+   * events). The cached content is dropped, so the next bootstrap
+   * rebuilds it from the server.
+   *
+   * @param documentId - Document ID
+   */
+  private static async resync(documentId: string): Promise<void> {
+    let dropped = 0;
+
+    await db.transaction('rw', db.events, db.documents, async () => {
+      dropped = await db.events
+        .where('document_id')
+        .equals(documentId)
+        .filter((event) => !event.synced && !event.rejected)
+        .modify((event) => {
+          event.rejected = true;
+          event.retry_count = this.MAX_RETRIES;
+          event.last_error = 'Rejected: recorded after an event the server rejected';
+        });
+
+      await db.documents.where('id').equals(documentId).modify({
+        cached_content: null,
+        head_seq: null,
+      });
+    });
+
+    Logger.warn('SyncQueueManager: local edits no longer match the server, resyncing', {
+      documentId,
+      dropped,
+    });
+
+    this.resyncListeners.get(documentId)?.forEach((listener) => listener());
+  }
+
+  /**
+   * Catch up with edits other devices made before the batch was stored
+   *
+   * The server returns those edits rebased onto the batch just sent.
+   * Events still queued here were recorded after that batch, so the two
+   * are rebased over each other: queued events are rewritten to apply
+   * after the remote edits, and the remote edits are applied to the
+   * cached content and passed to listeners (the open editor).
+   *
+   * @param documentId - Document ID
+   * @param headSeq - Seq the device is in step with after catching up
+   * @param concurrent - Remote edits, rebased onto the sent batch
+   */
+  private static async catchUp(
+    documentId: string,
+    headSeq: number,
+    concurrent: WritingEvent[]
+  ): Promise<void> {
+    let remote: WritingEvent[] = [];
+
+    // Hold local edits until the merged content has been handed over:
+    // edits still being queued are read by the transaction below (Dexie
+    // runs it after them), later ones would miss the rebase. Without
+    // remote edits nothing moves, so there is nothing to hold.
+    const holding = concurrent.length > 0;
+    if (holding) {
+      this.catchUpListeners.get(documentId)?.forEach((listener) => listener(true));
+    }
+
+    try {
+      await db.transaction('rw', db.events, db.documents, async () => {
+        const pending = await db.events
+          .where('[document_id+local_seq]')
+          .between([documentId, Dexie.minKey], [documentId, Dexie.maxKey])
+          .filter((event) => !event.synced && !event.rejected)
+          .toArray();
+
+        const rebased = rebaseEvents(pending, concurrent);
+        remote = rebased.concurrent;
+
+        if (pending.length > 0 && concurrent.length > 0) {
+          // Renumber: a rebased event may have been split in two
+          await db.events
+            .where('id')
+            .anyOf(pending.map((event) => event.id))
+            .delete();
+          let localSeq = await this.lastLocalSeq(documentId);
+          await db.events.bulkAdd(
+            rebased.events.map((event) => ({ ...event, local_seq: ++localSeq }))
+          );
+        }
+
+        await db.documents.where('id').equals(documentId).modify((document) => {
+          document.head_seq = headSeq;
+          if (document.cached_content !== null) {
+            document.cached_content = EventSourcingEngine.applyEvents(
+              document.cached_content,
+              remote
+            );
+          }
+        });
+      });
+
+      if (remote.length > 0) {
+        Logger.info('SyncQueueManager: merged edits from another device', {
+          documentId,
+          count: remote.length,
+        });
+        this.remoteListeners.get(documentId)?.forEach((listener) => listener(remote));
+      }
+    } finally {
+      if (holding) {
+        this.catchUpListeners.get(documentId)?.forEach((listener) => listener(false));
+      }
+    }
+  }
+
+  /**
+   * Get count of pending events for a document (rejected ones excluded)
    */
   private static async getPendingCount(documentId: string): Promise<number> {
     return await db.events
       .where('document_id')
       .equals(documentId)
-      .and(event => !event.synced)
+      .and(event => !event.synced && !event.rejected)
       .count();
   }
 
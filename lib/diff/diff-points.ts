@@ -0,0 +1,244 @@
+import type { WritingEvent } from '@/types/events';
+import type { NamedVersion } from '@/types/supabase';
+import { sessionRange, type SessionRun } from '@/lib/event-sourcing/sessions';
+import { formatDate } from '@/lib/utils/time';
+import {
+  DEFAULT_FIRST_DRAFT,
+  findFirstDraft,
+  type FirstDraftMark,
+  type FirstDraftOptions,
+} from './first-draft';
+
+/**
+ * Diff Point
+ *
+ * One side of a comparison:
+ * - start: Before the first event (empty document)
+ * - end: After the last event
+ * - first-draft: The point picked by the first-draft heuristic (see `findFirstDraft`)
+ * - event: After the event at `index` (0-based, in replay order)
+ * - time: Everything written up to `timestamp` (see `EventSourcingEngine.replayUpTo`)
+ * - session: After the last event of session `number`
+ * - version: A named version the author tagged (by `id`)
+ */
+export type DiffPoint =
+  | { kind: 'start' }
+  | { kind: 'end' }
+  | { kind: 'first-draft' }
+  | { kind: 'event'; index: number }
+  | { kind: 'time'; timestamp: number }
+  | { kind: 'session'; number: number }
+  | { kind: 'version'; id: string };
+
+/**
+ * Document Version
+ *
+ * Content of a document at a diff point.
+ */
+export interface DocumentVersion {
+  /** Document ID */
+  documentId: string;
+  /** Point this version was built for */
+  point: DiffPoint;
+  /** Version content */
+  content: string;
+  /** Version timestamp */
+  timestamp: number;
+  /** Human-readable description of the point */
+  label: string;
+  /** Event count at this version */
+  eventCount: number;
+}
+
+/**
+ * Diff Point Resolution
+ *
+ * Where a point falls in a history, before any content is built.
+ */
+export interface DiffPointResolution {
+  /** Events included (for event-based points, the first `eventCount` in replay order) */
+  eventCount: number;
+  /** Timestamp of the point */
+  timestamp: number;
+  /** Human-readable description of the point */
+  label: string;
+}
+
+/**
+ * Diff Point Context
+ *
+ * What besides the events a point may refer to.
+ */
+export interface DiffPointContext {
+  /** Rules for `first-draft` points */
+  firstDraft?: FirstDraftOptions;
+  /** Named versions for `version` points (also marks for the first draft) */
+  versions?: NamedVersion[];
+}
+
+/** Default left side: the first draft */
+export const DEFAULT_FROM_POINT: DiffPoint = { kind: 'first-draft' };
+/** Default right side: the current document */
+export const DEFAULT_TO_POINT: DiffPoint = { kind: 'end' };
+
+/**
+ * Locate a point in a history
+ *
+ * Out-of-range indices and sessions are clamped to the history; unknown
+ * versions resolve to the final version.
+ *
+ * @param events - Full history in replay order
+ * @param runs - Session runs for the same events (from `groupSessions`)
+ * @param point - Point to locate
+ * @param context - First-draft rules and named versions
+ * @returns Event count, timestamp and label for the point
+ */
+export function resolveDiffPoint(
+  events: WritingEvent[],
+  runs: SessionRun[],
+  point: DiffPoint,
+  context: DiffPointContext = {}
+): DiffPointResolution {
+  const { firstDraft = DEFAULT_FIRST_DRAFT, versions = [] } = context;
+  const first = events[0]?.timestamp ?? 0;
+  const last = events[events.length - 1]?.timestamp ?? 0;
+
+  switch (point.kind) {
+    case 'start':
+      return { eventCount: 0, timestamp: first, label: 'Blank page' };
+
+    case 'end':
+      return { eventCount: events.length, timestamp: last, label: 'Final version' };
+
+    case 'first-draft': {
+      if (events.length === 0) {
+        return { eventCount: 0, timestamp: first, label: 'Blank page' };
+      }
+      const match = findFirstDraft(events, runs, {
+        ...firstDraft,
+        marks: firstDraft.marks ?? versionMarks(versions),
+      });
+      return {
+        eventCount: match.eventIndex + 1,
+        timestamp: events[match.eventIndex].timestamp,
+        label: `First draft: ${match.reason}`,
+      };
+    }
+
+    case 'event': {
+      if (events.length === 0) {
+        return { eventCount: 0, timestamp: first, label: 'Blank page' };
+      }
+      const index = Math.max(0, Math.min(point.index, events.length - 1));
+      return {
+        eventCount: index + 1,
+        timestamp: events[index].timestamp,
+        label: index === 0 ? 'After the first event' : `After event ${index + 1}`,
+      };
+    }
+
+    case 'time': {
+      // Same events as `replayUpTo`, which filters by timestamp
+      const eventCount = events.filter((event) => event.timestamp <= point.timestamp).length;
+      return {
+        eventCount,
+        timestamp: point.timestamp,
+        label: `As of ${new Date(point.timestamp).toLocaleString('ko-KR')}`,
+      };
+    }
+
+    case 'session': {
+      const range = sessionRange(runs, point.number);
+      if (!range) {
+        return { eventCount: events.length, timestamp: last, label: 'Final version' };
+      }
+      return {
+        eventCount: range.endIndex + 1,
+        timestamp: events[range.endIndex].timestamp,
+        label: `End of session ${point.number} (${formatDate(events[range.endIndex].timestamp)})`,
+      };
+    }
+
+    case 'version': {
+      const version = versions.find((candidate) => candidate.id === point.id);
+      if (!version) {
+        return { eventCount: events.length, timestamp: last, label: 'Final version' };
+      }
+      const eventCount = Math.min(version.event_count, events.length);
+      return {
+        eventCount,
+        timestamp: eventCount > 0 ? events[eventCount - 1].timestamp : first,
+        label: `"${version.name}"`,
+      };
+    }
+  }
+}
+
+/**
+ * Named versions as first-draft marks
+ *
+ * @param versions - Named versions of the document
+ * @returns One mark per version that includes at least one event
+ */
+export function versionMarks(versions: NamedVersion[]): FirstDraftMark[] {
+  return versions
+    .filter((version) => version.event_count > 0)
+    .map((version) => ({ eventIndex: version.event_count - 1, name: version.name }));
+}
+
+/**
+ * Read a point from a URL parameter
+ *
+ * Accepted forms: `start`, `end`, `first-draft`, `event:<index>`,
+ * `time:<ms>`, `session:<number>` and `version:<id>` (the inverse of
+ * `formatDiffPoint`).
+ *
+ * @param value - Parameter value
+ * @returns Point, or null if missing or malformed
+ */
+export function parseDiffPoint(value: string | null): DiffPoint | null {
+  if (!value) return null;
+  if (value === 'start' || value === 'end' || value === 'first-draft') return { kind: value };
+
+  const [kind, raw] = value.split(':', 2);
+  if (kind === 'version') {
+    return raw ? { kind: 'version', id: raw } : null;
+  }
+
+  const number = Number(raw);
+  if (!raw || !Number.isFinite(number)) return null;
+
+  switch (kind) {
+    case 'event':
+      return number >= 0 ? { kind: 'event', index: Math.floor(number) } : null;
+    case 'time':
+      return { kind: 'time', timestamp: number };
+    case 'session':
+      return number >= 1 ? { kind: 'session', number: Math.floor(number) } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Write a point as a URL parameter
+ *
+ * @param point - Point to write
+ * @returns Parameter value (see `parseDiffPoint`)
+ */
+export function formatDiffPoint(point: DiffPoint): string {
+  switch (point.kind) {
+    case 'start':
+    case 'end':
+    case 'first-draft':
+      return point.kind;
+    case 'event':
+      return `event:${point.index}`;
+    case 'time':
+      return `time:${point.timestamp}`;
+    case 'session':
+      return `session:${point.number}`;
+    case 'version':
+      return `version:${point.id}`;
+  }
+}
@@ -0,0 +1,153 @@
+import type { WritingEvent } from '@/types/events';
+import { eventEdit } from '@/lib/event-sourcing/document-buffer';
+import { sessionRange, type SessionRun } from '@/lib/event-sourcing/sessions';
+import { formatDate } from '@/lib/utils/time';
+
+/**
+ * First Draft Rule
+ *
+ * - marked: The earliest version the author tagged
+ * - first-session: End of the first writing session (if more followed)
+ * - length-share: First point where the text reached a share of its
+ *   final length
+ * - first-event: After the very first event (always applies)
+ */
+export type FirstDraftRule = 'marked' | 'first-session' | 'length-share' | 'first-event';
+
+/**
+ * First Draft Mark
+ *
+ * A point the author marked, e.g. "Draft 1" (see `versionMarks`).
+ */
+export interface FirstDraftMark {
+  /** Event index the mark was made at */
+  eventIndex: number;
+  /** Name of the mark */
+  name: string;
+}
+
+/**
+ * First Draft Options
+ */
+export interface FirstDraftOptions {
+  /** Rules to try, in order; the first that applies wins */
+  rules: FirstDraftRule[];
+  /** Share of the final length for `length-share` (0-1) */
+  lengthShare: number;
+  /** Author marks for `marked` (the earliest is used) */
+  marks?: FirstDraftMark[];
+}
+
+/**
+ * First Draft Match
+ */
+export interface FirstDraftMatch {
+  /** Rule that picked the draft */
+  rule: FirstDraftRule;
+  /** Last event index included in the draft */
+  eventIndex: number;
+  /** Why this point was picked, for display */
+  reason: string;
+}
+
+export const DEFAULT_FIRST_DRAFT: FirstDraftOptions = {
+  rules: ['marked', 'first-session', 'length-share'],
+  lengthShare: 0.5,
+};
+
+/**
+ * Pick the point of a history to treat as the first draft
+ *
+ * Tries each rule in order; falls back to `first-event` when none of
+ * them applies.
+ *
+ * @param events - Full history in replay order (not empty)
+ * @param runs - Session runs for the same events (from `groupSessions`)
+ * @param options - Rules to try
+ * @returns Draft point and the rule that picked it
+ */
+export function findFirstDraft(
+  events: WritingEvent[],
+  runs: SessionRun[],
+  options: FirstDraftOptions = DEFAULT_FIRST_DRAFT
+): FirstDraftMatch {
+  for (const rule of options.rules) {
+    const match = applyRule(rule, events, runs, options);
+    if (match) return match;
+  }
+
+  return { rule: 'first-event', eventIndex: 0, reason: 'after the first event' };
+}
+
+function applyRule(
+  rule: FirstDraftRule,
+  events: WritingEvent[],
+  runs: SessionRun[],
+  options: FirstDraftOptions
+): FirstDraftMatch | null {
+  const lastIndex = events.length - 1;
+
+  switch (rule) {
+    case 'marked': {
+      const marks = (options.marks ?? [])
+        .filter((mark) => mark.eventIndex >= 0 && mark.eventIndex < lastIndex)
+        .sort((a, b) => a.eventIndex - b.eventIndex);
+      if (marks.length === 0) return null;
+
+      return { rule, eventIndex: marks[0].eventIndex, reason: `version "${marks[0].name}"` };
+    }
+
+    case 'first-session': {
+      const range = sessionRange(runs, 1);
+      // A single session ends at the final version
+      if (!range || range.endIndex >= lastIndex) return null;
+
+      return {
+        rule,
+        eventIndex: range.endIndex,
+        reason: `end of the first session (${formatDate(events[range.endIndex].timestamp)})`,
+      };
+    }
+
+    case 'length-share': {
+      const index = findLengthShareIndex(events, options.lengthShare);
+      if (index < 0 || index >= lastIndex) return null;
+
+      return {
+        rule,
+        eventIndex: index,
+        reason: `first reached ${Math.round(options.lengthShare * 100)}% of the final length`,
+      };
+    }
+
+    case 'first-event':
+      return { rule, eventIndex: 0, reason: 'after the first event' };
+  }
+}
+
+/**
+ * First event index after which the content is at least `share` of its
+ * final length
+ *
+ * Tracks lengths only, with the same clamping as `applyEvent`.
+ *
+ * @returns Event index, or -1 if the final content is empty
+ */
+function findLengthShareIndex(events: WritingEvent[], share: number): number {
+  const lengths = new Int32Array(events.length);
+  let length = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    const edit = eventEdit(events[i]);
+    if (edit) {
+      const position = Math.min(Math.max(edit.position, 0), length);
+      length += edit.text.length - Math.min(edit.deleteCount, length - position);
+    }
+    lengths[i] = length;
+  }
+
+  if (length === 0) return -1;
+
+  const target = Math.max(1, Math.ceil(length * Math.min(Math.max(share, 0), 1)));
+  return lengths.findIndex((value) => value >= target);
+}
@@ -0,0 +1,157 @@
+import { myersDiff } from '@/lib/diff/myers-diff';
+import { Logger } from '@/lib/utils/error-handler';
+import type { WritingEventInsert } from '@/types/events';
+import { EventSourcingEngine } from './engine';
+
+/**
+ * Fields shared by every event captured from one change
+ */
+export type CaptureBase = Pick<WritingEventInsert, 'document_id' | 'session_id' | 'timestamp'>;
+
+/**
+ * Turn a change to the editor text into writing events
+ *
+ * The edit script between the old and new text is computed with Myers
+ * diff, and every changed region becomes one event (insert, delete or
+ * replace), in left-to-right order. Positions account for the events
+ * before them, so replaying the events in order reproduces `newContent`.
+ *
+ * Where the change is ambiguous (typing "a" into "aa"), the caret decides:
+ * typed text ends at the caret, and deletions start there.
+ *
+ * @param oldContent - Text before the change
+ * @param newContent - Text after the change
+ * @param base - Document, session and timestamp for the events
+ * @param cursorPosition - Caret after the change, if known
+ * @returns Events in replay order (empty if nothing changed)
+ */
+export function captureChange(
+  oldContent: string,
+  newContent: string,
+  base: CaptureBase,
+  cursorPosition?: number
+): WritingEventInsert[] {
+  if (oldContent === newContent) {
+    return [];
+  }
+
+  const events = diffToEvents(oldContent, newContent, base, cursorPosition);
+
+  // Self-check: the log must reproduce exactly what the user sees
+  if (EventSourcingEngine.applyEvents(oldContent, events) === newContent) {
+    return events;
+  }
+
+  Logger.warn('captureChange: events did not reproduce the text, recording one replace', {
+    oldLength: oldContent.length,
+    newLength: newContent.length,
+    regions: events.length,
+  });
+
+  const { prefix, suffix } = trimCommon(oldContent, newContent);
+  return [
+    toEvent(
+      base,
+      prefix,
+      oldContent.slice(prefix, oldContent.length - suffix),
+      newContent.slice(prefix, newContent.length - suffix)
+    ),
+  ];
+}
+
+function diffToEvents(
+  oldContent: string,
+  newContent: string,
+  base: CaptureBase,
+  cursorPosition?: number
+): WritingEventInsert[] {
+  // Typed text ends at the caret; deleted text started at it
+  const prefixLimit =
+    cursorPosition === undefined
+      ? Infinity
+      : Math.max(0, cursorPosition - Math.max(0, newContent.length - oldContent.length));
+
+  const { prefix, suffix } = trimCommon(oldContent, newContent, prefixLimit);
+  const oldMiddle = oldContent.slice(prefix, oldContent.length - suffix);
+  const newMiddle = newContent.slice(prefix, newContent.length - suffix);
+
+  // Plain typing, Backspace and Delete touch a single region
+  if (!oldMiddle || !newMiddle) {
+    return [toEvent(base, prefix, oldMiddle, newMiddle)];
+  }
+
+  const { changes } = myersDiff.compare(oldMiddle, newMiddle, { semantic: false });
+
+  const events: WritingEventInsert[] = [];
+  let position = prefix;
+  let deleted = '';
+  let inserted = '';
+
+  const flush = () => {
+    if (deleted || inserted) {
+      events.push(toEvent(base, position, deleted, inserted));
+      position += inserted.length;
+      deleted = '';
+      inserted = '';
+    }
+  };
+
+  for (const change of changes) {
+    if (change.type === 'equal') {
+      flush();
+      position += change.text.length;
+    } else if (change.type === 'delete') {
+      deleted += change.text;
+    } else {
+      inserted += change.text;
+    }
+  }
+  flush();
+
+  return events;
+}
+
+/**
+ * Length of the common prefix and suffix (never overlapping)
+ */
+function trimCommon(
+  oldContent: string,
+  newContent: string,
+  prefixLimit: number = Infinity
+): { prefix: number; suffix: number } {
+  const minLength = Math.min(oldContent.length, newContent.length);
+
+  let prefix = 0;
+  while (
+    prefix < minLength &&
+    prefix < prefixLimit &&
+    oldContent[prefix] === newContent[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < minLength - prefix &&
+    oldContent[oldContent.length - 1 - suffix] === newContent[newContent.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return { prefix, suffix };
+}
+
+function toEvent(
+  base: CaptureBase,
+  position: number,
+  deleted: string,
+  inserted: string
+): WritingEventInsert {
+  return {
+    ...base,
+    event_type: deleted && inserted ? 'replace' : inserted ? 'insert' : 'delete',
+    position,
+    content: inserted || null,
+    content_before: deleted || null,
+  };
+}
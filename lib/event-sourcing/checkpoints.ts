@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { Checkpoint } from '@/types/events';
+import { EventSourcingEngine } from './engine';
+import { countEvents, fetchEventPage, fetchLineage } from './event-pages';
+
+type Client = SupabaseClient<Database>;
+
+/**
+ * Fetch the newest checkpoint for a document
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @returns Latest checkpoint or null if none exists
+ */
+export async function getLatestCheckpoint(
+  supabase: Client,
+  documentId: string
+): Promise<Checkpoint | null> {
+  const { data, error } = await supabase
+    .from('checkpoints')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('event_count', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Fetch all checkpoints for a document
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @returns Checkpoints sorted by event_count ASC
+ */
+export async function listCheckpoints(
+  supabase: Client,
+  documentId: string
+): Promise<Checkpoint[]> {
+  const { data, error } = await supabase
+    .from('checkpoints')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('event_count', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Create any checkpoints that are due for a document
+ *
+ * Called after a batch of events has been stored. Every
+ * `CHECKPOINT_INTERVAL` boundary crossed since the latest checkpoint
+ * gets a checkpoint, each one built by replaying only the events
+ * between it and the previous checkpoint.
+ *
+ * @param supabase - Supabase client allowed to insert checkpoints
+ * @param documentId - Document ID
+ * @returns Newly created checkpoints (empty if none were due)
+ */
+export async function createDueCheckpoints(
+  supabase: Client,
+  documentId: string
+): Promise<Checkpoint[]> {
+  // A fork's checkpoints also cover the history it inherited
+  const lineage = await fetchLineage(supabase, documentId);
+  const count = await countEvents(supabase, documentId, { lineage });
+
+  let latest = await getLatestCheckpoint(supabase, documentId);
+  const boundaries = EventSourcingEngine.checkpointBoundaries(
+    latest?.event_count ?? 0,
+    count
+  );
+
+  const created: Checkpoint[] = [];
+
+  for (const boundary of boundaries) {
+    const from = latest?.event_count ?? 0;
+
+    const { events } = await fetchEventPage(supabase, documentId, {
+      offset: from,
+      limit: boundary - from,
+      lineage,
+    });
+
+    // Never persist a checkpoint built from a partial page
+    if (events.length !== boundary - from) {
+      break;
+    }
+
+    const { content } = EventSourcingEngine.replayFromCheckpoint(events, latest);
+
+    const { data: checkpoint, error: insertError } = await supabase
+      .from('checkpoints')
+      .insert({
+        document_id: documentId,
+        event_count: boundary,
+        full_content: content,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    created.push(checkpoint);
+    latest = checkpoint;
+  }
+
+  return created;
+}
@@ -0,0 +1,87 @@
+import { bench, describe } from 'vitest';
+import type { WritingEventInsert } from '@/types/events';
+import { DocumentBuffer, applyEvent } from './document-buffer';
+
+/**
+ * Replay benchmark: plain strings vs DocumentBuffer
+ *
+ * Run with `npm run bench`. The history is 100k keystrokes of someone
+ * typing, backspacing and now and then moving the caret elsewhere.
+ */
+
+const EVENT_COUNT = 100_000;
+
+/** Deterministic pseudo-random numbers, so every run replays the same history */
+function createRandom(seed: number) {
+  return (max: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed >>> 16) % max;
+  };
+}
+
+function typingHistory(initialLength: number): WritingEventInsert[] {
+  const random = createRandom(42);
+  const events: WritingEventInsert[] = [];
+  let length = initialLength;
+  let caret = initialLength;
+
+  for (let i = 0; i < EVENT_COUNT; i++) {
+    const base = { document_id: 'bench', session_id: 'bench', timestamp: i };
+
+    if (random(200) === 0) {
+      caret = random(length + 1);
+    }
+
+    if (random(8) === 0 && caret > 0) {
+      events.push({
+        ...base,
+        event_type: 'delete',
+        position: caret - 1,
+        content: null,
+        content_before: 'x',
+      });
+      caret--;
+      length--;
+    } else {
+      events.push({
+        ...base,
+        event_type: 'insert',
+        position: caret,
+        content: 'etaoin shrdlu'[random(13)],
+        content_before: null,
+      });
+      caret++;
+      length++;
+    }
+  }
+
+  return events;
+}
+
+function replayStrings(content: string, events: WritingEventInsert[]): string {
+  for (const event of events) {
+    content = applyEvent(content, event);
+  }
+  return content;
+}
+
+function replayBuffer(content: string, events: WritingEventInsert[]): string {
+  return new DocumentBuffer(content).applyAll(events).toString();
+}
+
+const options = { iterations: 3, warmupIterations: 1 };
+
+describe('100k events from an empty document', () => {
+  const events = typingHistory(0);
+
+  bench('string', () => void replayStrings('', events), options);
+  bench('DocumentBuffer', () => void replayBuffer('', events), options);
+});
+
+describe('100k events on a 100k-character checkpoint', () => {
+  const checkpoint = 'All work and no play. '.repeat(4546).slice(0, 100_000);
+  const events = typingHistory(checkpoint.length);
+
+  bench('string', () => void replayStrings(checkpoint, events), options);
+  bench('DocumentBuffer', () => void replayBuffer(checkpoint, events), options);
+});
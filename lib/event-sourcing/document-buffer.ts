@@ -0,0 +1,246 @@
+import type { WritingEventInsert } from '@/types/events';
+
+/**
+ * Text Edit
+ *
+ * What an event does to the text: delete `deleteCount` characters at
+ * `position`, then insert `text` there.
+ */
+export interface TextEdit {
+  position: number;
+  deleteCount: number;
+  text: string;
+}
+
+/**
+ * Work out the edit an event makes
+ *
+ * This is the single definition of event semantics: every way of
+ * applying events (strings, `DocumentBuffer`) goes through it.
+ *
+ * @param event - Event to interpret
+ * @returns Edit, or null if the event changes nothing
+ */
+export function eventEdit(event: WritingEventInsert): TextEdit | null {
+  const { event_type, position, content, content_before } = event;
+
+  switch (event_type) {
+    case 'insert':
+      return content ? { position, deleteCount: 0, text: content } : null;
+
+    case 'delete':
+      return content_before ? { position, deleteCount: content_before.length, text: '' } : null;
+
+    case 'replace':
+      return content_before && content
+        ? { position, deleteCount: content_before.length, text: content }
+        : null;
+
+    default:
+      console.warn(`Unknown event type: ${event_type}`);
+      return null;
+  }
+}
+
+/**
+ * Apply a single event to a string
+ *
+ * Copies the whole string, so use a `DocumentBuffer` to apply many
+ * events in a row.
+ *
+ * @param content - Current content
+ * @param event - Event to apply
+ * @returns New content after applying the event
+ */
+export function applyEvent(content: string, event: WritingEventInsert): string {
+  const edit = eventEdit(event);
+  if (!edit) return content;
+
+  const position = Math.min(Math.max(edit.position, 0), content.length);
+  return content.slice(0, position) + edit.text + content.slice(position + edit.deleteCount);
+}
+
+/**
+ * Document Buffer
+ *
+ * Mutable text for replaying long histories. Applying an event to a
+ * plain string copies the whole document, so replaying m events into an
+ * n-character manuscript costs O(n·m). The buffer is a flat rope: the
+ * text is kept in chunks of about `CHUNK_SIZE` characters, and an edit
+ * only rebuilds the chunks it touches.
+ *
+ * Writers mostly edit near where they last edited, so the chunk found by
+ * the previous edit is remembered and the search for the next one starts
+ * there. The full string is only built when asked for, and cached until
+ * the next edit.
+ *
+ * Usage:
+ * ```ts
+ * const buffer = new DocumentBuffer(checkpoint.full_content);
+ * buffer.applyAll(events);
+ * const content = buffer.toString();
+ * ```
+ */
+export class DocumentBuffer {
+  /** Target chunk length; chunks are split once they reach twice this */
+  static readonly CHUNK_SIZE = 1024;
+
+  /** Never empty: an empty document is a single '' chunk */
+  private chunks: string[];
+  private totalLength: number;
+  private cached: string | null;
+
+  /** A chunk index and the offset it starts at, from the last lookup */
+  private hintIndex = 0;
+  private hintStart = 0;
+
+  constructor(content: string = '') {
+    this.chunks = DocumentBuffer.toChunks(content);
+    this.totalLength = content.length;
+    this.cached = content;
+  }
+
+  /** Number of characters */
+  get length(): number {
+    return this.totalLength;
+  }
+
+  /** The whole text */
+  toString(): string {
+    if (this.cached === null) {
+      this.cached = this.chunks.join('');
+    }
+    return this.cached;
+  }
+
+  /**
+   * Text between two offsets (clamped like `String.prototype.slice`,
+   * but without negative offsets)
+   */
+  slice(start: number, end: number = this.totalLength): string {
+    start = this.clamp(start);
+    end = this.clamp(end);
+    if (end <= start) return '';
+    if (this.cached !== null) return this.cached.slice(start, end);
+
+    let [index, chunkStart] = this.locate(start);
+    let result = '';
+
+    while (chunkStart < end && index < this.chunks.length) {
+      const chunk = this.chunks[index];
+      result += chunk.slice(Math.max(start - chunkStart, 0), end - chunkStart);
+      chunkStart += chunk.length;
+      index++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete `deleteCount` characters at `position`, then insert `text`
+   *
+   * Out-of-range positions are clamped to the text, as string slicing does.
+   */
+  splice(position: number, deleteCount: number, text: string): void {
+    position = this.clamp(position);
+    deleteCount = Math.min(Math.max(deleteCount, 0), this.totalLength - position);
+    if (deleteCount === 0 && !text) return;
+
+    const [first, start] = this.locate(position);
+    const offset = position - start;
+
+    // Find the last chunk the deletion reaches into
+    let last = first;
+    let tail = this.chunks[first].slice(offset);
+    let remaining = deleteCount;
+    while (remaining > tail.length && last + 1 < this.chunks.length) {
+      remaining -= tail.length;
+      last++;
+      tail = this.chunks[last];
+    }
+
+    const merged = this.chunks[first].slice(0, offset) + text + tail.slice(remaining);
+
+    let replacement: string[];
+    if (merged.length >= DocumentBuffer.CHUNK_SIZE * 2) {
+      replacement = DocumentBuffer.toChunks(merged);
+    } else {
+      replacement = merged ? [merged] : [];
+    }
+
+    this.chunks.splice(first, last - first + 1, ...replacement);
+    if (this.chunks.length === 0) {
+      this.chunks.push('');
+    }
+    this.totalLength += text.length - deleteCount;
+    this.cached = null;
+
+    // Chunks before `first` are unchanged, so its start offset still holds
+    this.hintIndex = first;
+    this.hintStart = start;
+  }
+
+  /**
+   * Apply an event
+   *
+   * @returns This buffer, for chaining
+   */
+  apply(event: WritingEventInsert): this {
+    const edit = eventEdit(event);
+    if (edit) {
+      this.splice(edit.position, edit.deleteCount, edit.text);
+    }
+    return this;
+  }
+
+  /**
+   * Apply events in order
+   *
+   * @returns This buffer, for chaining
+   */
+  applyAll(events: Iterable<WritingEventInsert>): this {
+    for (const event of events) {
+      this.apply(event);
+    }
+    return this;
+  }
+
+  /**
+   * Find the chunk holding `position` (at its end counts as inside)
+   *
+   * @returns Chunk index and the offset the chunk starts at
+   */
+  private locate(position: number): [number, number] {
+    let index = this.hintIndex;
+    let start = this.hintStart;
+    if (index >= this.chunks.length) {
+      index = 0;
+      start = 0;
+    }
+
+    while (position < start) {
+      index--;
+      start -= this.chunks[index].length;
+    }
+    while (index < this.chunks.length - 1 && position > start + this.chunks[index].length) {
+      start += this.chunks[index].length;
+      index++;
+    }
+
+    return [index, start];
+  }
+
+  private clamp(position: number): number {
+    return Math.min(Math.max(position, 0), this.totalLength);
+  }
+
+  private static toChunks(text: string): string[] {
+    if (text.length === 0) return [''];
+
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += this.CHUNK_SIZE) {
+      chunks.push(text.slice(i, i + this.CHUNK_SIZE));
+    }
+    return chunks;
+  }
+}
@@ -1,9 +1,12 @@
 import type {
   WritingEvent,
+  WritingEventInsert,
   ReplayResult,
   Checkpoint,
+  EventRejection,
   EventStats,
 } from '@/types/events';
+import { DocumentBuffer } from './document-buffer';
 
 /**
  * Event Sourcing Engine
@@ -12,58 +15,165 @@ import type {
  * This is the heart of the event sourcing system.
  *
  * Key principles:
- * 1. Events are immutable and ordered by timestamp
+ * 1. Events are immutable and ordered by seq (see `compareEvents`)
  * 2. Current state is derived by replaying events sequentially
  * 3. Checkpoints provide performance optimization for large event histories
+ *
+ * Events are applied through `DocumentBuffer`, so a replay costs time
+ * proportional to the events rather than events times document length.
  */
 export class EventSourcingEngine {
   /**
-   * Apply a single event to content
+   * Number of events between automatic checkpoints
+   */
+  static readonly CHECKPOINT_INTERVAL = 1000;
+
+  /**
+   * Compare two events by their position in the document's history
+   *
+   * Order:
+   * 1. Synced events by server-assigned `seq`
+   * 2. Unsynced events after all synced ones, by `local_seq`
+   * 3. Events with neither (legacy data) by timestamp, then id
+   *
+   * Timestamps come from the clients' clocks, so they only break ties:
+   * two devices can record overlapping timestamps for the same document.
    *
-   * @param content - Current content state
-   * @param event - Event to apply
-   * @returns New content after applying event
+   * @returns Negative if `a` comes first, positive if `b` does
    */
-  private static applyEvent(content: string, event: WritingEvent): string {
-    const { event_type, position, content: newContent, content_before } = event;
-
-    switch (event_type) {
-      case 'insert': {
-        // Insert new content at position
-        if (!newContent) return content;
-        const before = content.slice(0, position);
-        const after = content.slice(position);
-        return before + newContent + after;
+  static compareEvents(
+    a: WritingEvent & { local_seq?: number },
+    b: WritingEvent & { local_seq?: number }
+  ): number {
+    if (a.seq !== undefined && b.seq !== undefined) {
+      return a.seq - b.seq;
+    }
+    if (a.seq !== undefined) return -1;
+    if (b.seq !== undefined) return 1;
+
+    if (a.local_seq !== undefined && b.local_seq !== undefined && a.local_seq !== b.local_seq) {
+      return a.local_seq - b.local_seq;
+    }
+
+    if (a.timestamp !== b.timestamp) {
+      return a.timestamp - b.timestamp;
+    }
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  }
+
+  /**
+   * Put events in replay order
+   *
+   * Returns the input array itself when it is already ordered (the
+   * common case for histories fetched from the API), so calling this
+   * before every replay is cheap.
+   *
+   * @param events - Events in any order
+   * @returns Events ordered by `compareEvents`
+   */
+  static sortEvents<T extends WritingEvent>(events: T[]): T[] {
+    for (let i = 1; i < events.length; i++) {
+      if (this.compareEvents(events[i - 1], events[i]) > 0) {
+        return [...events].sort((a, b) => this.compareEvents(a, b));
       }
+    }
+    return events;
+  }
 
-      case 'delete': {
-        // Delete content_before length characters at position
-        if (!content_before) return content;
-        const deleteLength = content_before.length;
-        const before = content.slice(0, position);
-        const after = content.slice(position + deleteLength);
-        return before + after;
+  /**
+   * Apply a sequence of events on top of existing content
+   *
+   * @param content - Content to start from
+   * @param events - Events to apply, in order
+   * @returns Content after all events were applied
+   */
+  static applyEvents(content: string, events: WritingEventInsert[]): string {
+    if (events.length === 0) return content;
+    return new DocumentBuffer(content).applyAll(events).toString();
+  }
+
+  /**
+   * Check that an event applies cleanly to content
+   *
+   * The position must lie within the text, and for deletes and replaces
+   * the text at that position must be exactly `content_before`. An event
+   * failing this was recorded against different text, and replaying it
+   * would silently corrupt the document.
+   *
+   * @param content - Content the event is about to be applied to
+   * @param event - Event to check
+   * @returns Rejection, or null if the event applies cleanly
+   */
+  static checkEvent(
+    content: string | DocumentBuffer,
+    event: WritingEventInsert
+  ): EventRejection | null {
+    if (event.position > content.length) {
+      return {
+        code: 'position_out_of_range',
+        message: `Position ${event.position} is past the end of the text (length ${content.length})`,
+      };
+    }
+
+    if (event.event_type !== 'insert') {
+      const expected = event.content_before ?? '';
+      const actual = content.slice(event.position, event.position + expected.length);
+
+      if (actual !== expected) {
+        return {
+          code: 'content_mismatch',
+          message: `content_before does not match the text at position ${event.position}`,
+          expected,
+          actual,
+        };
       }
+    }
+
+    return null;
+  }
 
-      case 'replace': {
-        // Replace content_before with newContent at position
-        if (!content_before || !newContent) return content;
-        const replaceLength = content_before.length;
-        const before = content.slice(0, position);
-        const after = content.slice(position + replaceLength);
-        return before + newContent + after;
+  /**
+   * Apply events in order, stopping at the first one that doesn't apply
+   *
+   * Every event after a rejected one was recorded on top of it, so those
+   * are rejected as well (`depends_on_rejected`).
+   *
+   * @param content - Content to start from
+   * @param events - Events to apply, in order
+   * @returns Content after the accepted events, how many were accepted
+   * (a prefix of `events`), and one rejection per remaining event
+   */
+  static applyEventsChecked(
+    content: string,
+    events: WritingEventInsert[]
+  ): { content: string; accepted: number; rejections: EventRejection[] } {
+    const buffer = new DocumentBuffer(content);
+
+    for (let i = 0; i < events.length; i++) {
+      const rejection = this.checkEvent(buffer, events[i]);
+
+      if (rejection) {
+        const dependent: EventRejection = {
+          code: 'depends_on_rejected',
+          message: `Recorded after rejected event ${i}`,
+        };
+        return {
+          content: buffer.toString(),
+          accepted: i,
+          rejections: [rejection, ...events.slice(i + 1).map(() => dependent)],
+        };
       }
 
-      default:
-        console.warn(`Unknown event type: ${event_type}`);
-        return content;
+      buffer.apply(events[i]);
     }
+
+    return { content: buffer.toString(), accepted: events.length, rejections: [] };
   }
 
   /**
    * Replay events to reconstruct document content
    *
-   * @param events - Sorted array of events (by timestamp ASC)
+   * @param events - Full event history (ordered by seq before replaying)
    * @param checkpoint - Optional checkpoint to start from
    * @returns Replay result with final content and metadata
    */
@@ -74,15 +184,14 @@ export class EventSourcingEngine {
     const startTime = performance.now();
 
     // Start from checkpoint or empty string
-    let content = checkpoint?.full_content ?? '';
+    const buffer = new DocumentBuffer(checkpoint?.full_content ?? '');
     const startEventIndex = checkpoint?.event_count ?? 0;
 
     // Apply events sequentially
-    const eventsToReplay = events.slice(startEventIndex);
-    for (const event of eventsToReplay) {
-      content = this.applyEvent(content, event);
-    }
+    const eventsToReplay = this.sortEvents(events).slice(startEventIndex);
+    buffer.applyAll(eventsToReplay);
 
+    const content = buffer.toString();
     const duration_ms = performance.now() - startTime;
 
     return {
@@ -93,10 +202,41 @@ export class EventSourcingEngine {
     };
   }
 
+  /**
+   * Replay only the events recorded after a checkpoint
+   *
+   * Unlike `replay`, which expects the full history and skips the
+   * checkpointed prefix itself, this takes just the tail of events
+   * that follow the checkpoint (as returned by the events API).
+   *
+   * @param events - Events after the checkpoint (ordered by seq before replaying)
+   * @param checkpoint - Checkpoint to start from (null replays from empty)
+   * @returns Replay result with final content and metadata
+   */
+  static replayFromCheckpoint(
+    events: WritingEvent[],
+    checkpoint: Checkpoint | null
+  ): ReplayResult {
+    const startTime = performance.now();
+
+    const content = new DocumentBuffer(checkpoint?.full_content ?? '')
+      .applyAll(this.sortEvents(events))
+      .toString();
+
+    const duration_ms = performance.now() - startTime;
+
+    return {
+      content,
+      event_count: events.length,
+      duration_ms,
+      used_checkpoint: !!checkpoint,
+    };
+  }
+
   /**
    * Replay events up to a specific timestamp (for playback feature)
    *
-   * @param events - Sorted array of events (by timestamp ASC)
+   * @param events - Full event history (ordered by seq before replaying)
    * @param targetTimestamp - Target timestamp to replay up to
    * @param checkpoint - Optional checkpoint to start from
    * @returns Content state at the target timestamp
@@ -106,20 +246,17 @@ export class EventSourcingEngine {
     targetTimestamp: number,
     checkpoint?: Checkpoint
   ): string {
-    let content = checkpoint?.full_content ?? '';
     const startEventIndex = checkpoint?.event_count ?? 0;
 
     // Filter events up to target timestamp
-    const eventsToReplay = events
+    const eventsToReplay = this.sortEvents(events)
       .slice(startEventIndex)
       .filter((e) => e.timestamp <= targetTimestamp);
 
     // Apply events sequentially
-    for (const event of eventsToReplay) {
-      content = this.applyEvent(content, event);
-    }
-
-    return content;
+    return new DocumentBuffer(checkpoint?.full_content ?? '')
+      .applyAll(eventsToReplay)
+      .toString();
   }
 
   /**
@@ -191,20 +328,27 @@ export class EventSourcingEngine {
   /**
    * Validate event ordering and integrity
    *
+   * Besides field checks, the events are replayed from `initialContent`
+   * and each one must apply cleanly (see `checkEvent`).
+   *
    * @param events - Events to validate
+   * @param initialContent - Content before the first event (e.g. a checkpoint)
    * @returns Validation result with errors if any
    */
-  static validate(events: WritingEvent[]): {
+  static validate(
+    events: WritingEvent[],
+    initialContent: string = ''
+  ): {
     valid: boolean;
     errors: string[];
   } {
     const errors: string[] = [];
 
-    // Check if events are sorted by timestamp
+    // Check if events are in replay order
     for (let i = 1; i < events.length; i++) {
-      if (events[i].timestamp < events[i - 1].timestamp) {
+      if (this.compareEvents(events[i - 1], events[i]) > 0) {
         errors.push(
-          `Events not sorted: event ${i} (ts: ${events[i].timestamp}) comes before event ${i - 1} (ts: ${events[i - 1].timestamp})`
+          `Events not sorted: event ${i} (seq: ${events[i].seq ?? 'none'}, ts: ${events[i].timestamp}) comes before event ${i - 1} (seq: ${events[i - 1].seq ?? 'none'}, ts: ${events[i - 1].timestamp})`
         );
       }
     }
@@ -235,6 +379,16 @@ export class EventSourcingEngine {
       }
     });
 
+    // Check that each event matches the text replayed before it
+    const buffer = new DocumentBuffer(initialContent);
+    this.sortEvents(events).forEach((event, index) => {
+      const rejection = this.checkEvent(buffer, event);
+      if (rejection) {
+        errors.push(`Event ${index}: ${rejection.message}`);
+      }
+      buffer.apply(event);
+    });
+
     return {
       valid: errors.length === 0,
       errors,
@@ -250,6 +404,35 @@ export class EventSourcingEngine {
    * @returns Whether to create a checkpoint
    */
   static shouldCreateCheckpoint(eventCount: number): boolean {
-    return eventCount > 0 && eventCount % 1000 === 0;
+    return eventCount > 0 && eventCount % this.CHECKPOINT_INTERVAL === 0;
+  }
+
+  /**
+   * List checkpoint boundaries crossed by a batch of new events
+   *
+   * Batches rarely land exactly on a multiple of the interval, so the
+   * server asks which boundaries lie between the last checkpoint and
+   * the new event count instead of testing the count itself.
+   *
+   * @param previousCount - Event count of the latest existing checkpoint
+   * @param currentCount - Event count after the batch was stored
+   * @returns Event counts at which checkpoints should exist, ascending
+   */
+  static checkpointBoundaries(
+    previousCount: number,
+    currentCount: number
+  ): number[] {
+    const boundaries: number[] = [];
+    const interval = this.CHECKPOINT_INTERVAL;
+    let next = (Math.floor(previousCount / interval) + 1) * interval;
+
+    while (next <= currentCount) {
+      if (this.shouldCreateCheckpoint(next)) {
+        boundaries.push(next);
+      }
+      next += interval;
+    }
+
+    return boundaries;
   }
 }
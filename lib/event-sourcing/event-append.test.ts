@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WritingEvent } from '@/types/events';
+import { EventSourcingEngine } from './engine';
+import { HEAD_MOVED, appendEvents } from './event-append';
+
+/** Events stored on the "server", in seq order */
+let stored: WritingEvent[] = [];
+
+vi.mock('./event-pages', () => ({
+  fetchLineage: vi.fn(async () => []),
+  countEvents: vi.fn(
+    async (_supabase: unknown, _documentId: string, options: { throughSeq?: number | null }) =>
+      stored.filter((event) => options.throughSeq == null || event.seq! <= options.throughSeq)
+        .length
+  ),
+  fetchAllEvents: vi.fn(
+    async (_supabase: unknown, _documentId: string, options: { offset?: number }) =>
+      stored.slice(options.offset ?? 0)
+  ),
+}));
+
+type Client = Parameters<typeof appendEvents>[0];
+type RpcArgs = { p_expected_seq: number; p_events: WritingEvent[] };
+type RpcResult = { data: { id: string; seq: number }[] | null; error: { code: string } | null };
+
+let nextId = 1;
+
+function event(position: number, content: string): WritingEvent {
+  return {
+    id: `event-${nextId++}`,
+    document_id: 'doc',
+    session_id: 'session',
+    timestamp: 0,
+    event_type: 'insert',
+    position,
+    content,
+    content_before: null,
+  };
+}
+
+/** Store events the way append_events does, numbering them after the head */
+function store(events: WritingEvent[]): { id: string; seq: number }[] {
+  return events
+    .filter((candidate) => !stored.some((existing) => existing.id === candidate.id))
+    .map((candidate) => {
+      const row = { ...candidate, seq: stored.length + 1 };
+      stored.push(row);
+      return { id: row.id, seq: row.seq };
+    });
+}
+
+/**
+ * Supabase client whose queries find nothing (no checkpoints) and whose
+ * `append_events` RPC is `rpc`
+ */
+function client(rpc: (args: RpcArgs) => RpcResult) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    lt: () => query,
+    in: () => query,
+    order: () => query,
+    limit: () => query,
+    maybeSingle: async () => ({ data: null, error: null }),
+  };
+  const calls: RpcArgs[] = [];
+
+  const supabase = {
+    from: () => query,
+    rpc: vi.fn(async (_name: string, args: RpcArgs) => {
+      calls.push(args);
+      return rpc(args);
+    }),
+  };
+
+  return { supabase: supabase as unknown as Client, calls };
+}
+
+function storedContent(): string {
+  return EventSourcingEngine.applyEvents('', stored);
+}
+
+beforeEach(() => {
+  stored = [];
+  store([event(0, 'Hello')]);
+});
+
+describe('appendEvents', () => {
+  it('appends a batch recorded against the head as it is', async () => {
+    const batch = [event(5, ' world')];
+    const { supabase, calls } = client((args) => ({ data: store(args.p_events), error: null }));
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].p_expected_seq).toBe(1);
+    expect(result.inserted).toEqual([{ id: batch[0].id, seq: 2 }]);
+    expect(result.concurrent).toEqual([]);
+    expect(result.headSeq).toBe(2);
+    expect(storedContent()).toBe('Hello world');
+  });
+
+  it('rebases a batch over events other devices stored after its base', async () => {
+    store([event(0, 'Oh, ')]);
+    const batch = [event(5, ' world')];
+    const { supabase, calls } = client((args) => ({ data: store(args.p_events), error: null }));
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(calls[0].p_expected_seq).toBe(2);
+    expect(calls[0].p_events[0].position).toBe(9);
+    expect(storedContent()).toBe('Oh, Hello world');
+
+    // The submitting device catches up by applying the concurrent events
+    expect(EventSourcingEngine.applyEvents('Hello world', result.concurrent)).toBe(
+      'Oh, Hello world'
+    );
+    expect(result.headSeq).toBe(3);
+  });
+
+  it('rebases again when another batch lands before the append', async () => {
+    const batch = [event(5, '!')];
+    let attempts = 0;
+    const { supabase, calls } = client((args) => {
+      attempts++;
+      if (attempts === 1) {
+        // Another device got in first
+        store([event(0, '> ')]);
+        return { data: null, error: { code: HEAD_MOVED } };
+      }
+      return { data: store(args.p_events), error: null };
+    });
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(calls).toHaveLength(2);
+    expect(calls[1].p_expected_seq).toBe(2);
+    expect(storedContent()).toBe('> Hello!');
+    expect(EventSourcingEngine.applyEvents('Hello!', result.concurrent)).toBe('> Hello!');
+  });
+
+  it('gives up after repeated head moves', async () => {
+    const { supabase, calls } = client(() => {
+      store([event(0, '.')]);
+      return { data: null, error: { code: HEAD_MOVED } };
+    });
+
+    await expect(appendEvents(supabase, 'doc', [event(5, '!')], 1)).rejects.toMatchObject({
+      code: HEAD_MOVED,
+    });
+    expect(calls).toHaveLength(3);
+  });
+
+  it('absorbs a retried batch that was already stored', async () => {
+    const batch = [event(5, ' world')];
+    store(batch);
+    store([event(0, 'Oh, ')]);
+    const { supabase, calls } = client(() => {
+      throw new Error('nothing should be appended');
+    });
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(calls).toHaveLength(0);
+    expect(result.inserted).toEqual([]);
+    expect([...result.duplicateIds]).toEqual([batch[0].id]);
+    // Only what others wrote after the batch is left to catch up on
+    expect(EventSourcingEngine.applyEvents('Hello world', result.concurrent)).toBe(
+      'Oh, Hello world'
+    );
+  });
+
+  it('stores the rest of a batch that only partly landed', async () => {
+    const batch = [event(5, ','), event(6, ' world')];
+    store([batch[0]]);
+    const { supabase, calls } = client((args) => ({ data: store(args.p_events), error: null }));
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(calls[0].p_events.map((sent) => sent.id)).toEqual([batch[1].id]);
+    expect([...result.duplicateIds]).toEqual([batch[0].id]);
+    expect(storedContent()).toBe('Hello, world');
+  });
+
+  it('reports events the database skipped as duplicates', async () => {
+    const batch = [event(5, '!')];
+    const { supabase } = client(() => ({ data: [], error: null }));
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(result.inserted).toEqual([]);
+    expect([...result.duplicateIds]).toEqual([batch[0].id]);
+    expect(result.headSeq).toBe(1);
+  });
+
+  it('rejects events that do not apply, and everything after them', async () => {
+    const batch = [event(5, '!'), event(99, '?'), event(0, '¡')];
+    const { supabase, calls } = client((args) => ({ data: store(args.p_events), error: null }));
+
+    const result = await appendEvents(supabase, 'doc', batch, 1);
+
+    expect(calls[0].p_events.map((sent) => sent.id)).toEqual([batch[0].id]);
+    expect([...result.rejected.keys()]).toEqual([batch[1].id, batch[2].id]);
+    expect(result.rejected.get(batch[2].id)?.code).toBe('depends_on_rejected');
+  });
+});
@@ -0,0 +1,231 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/supabase';
+import type { EventRejection, WritingEvent } from '@/types/events';
+import { EventSourcingEngine } from './engine';
+import { countEvents, fetchAllEvents, fetchLineage } from './event-pages';
+import { rebaseEvents } from './transform';
+
+type Client = SupabaseClient<Database>;
+
+/** How often to rebase again when another batch lands mid-append */
+const MAX_APPEND_ATTEMPTS = 3;
+
+/** Postgres serialization_failure, raised by append_events on a moved head */
+export const HEAD_MOVED = '40001';
+
+/**
+ * Append Result
+ */
+export interface AppendResult {
+  /** Events actually stored, with their assigned seq (in seq order) */
+  inserted: { id: string; seq: number }[];
+  /** IDs of submitted events that were already stored */
+  duplicateIds: Set<string>;
+  /**
+   * Events stored by other devices since `baseSeq`, rebased to apply on
+   * top of the submitted batch. Applying these to the submitting
+   * device's content brings it in line with `headSeq`.
+   */
+  concurrent: WritingEvent[];
+  /** Latest seq the submitting device is now in step with */
+  headSeq: number | null;
+  /**
+   * Submitted events that don't apply to the stored history, by ID.
+   * Nothing at or after the first of them is stored.
+   */
+  rejected: Map<string, EventRejection>;
+}
+
+/**
+ * Append a batch of events, rebasing it over concurrent history
+ *
+ * `baseSeq` is the last seq the batch was recorded against. Events stored
+ * after it by other devices are concurrent: the batch is transformed to
+ * apply after them, and they are transformed to apply after the batch
+ * (returned for the submitting device to catch up). Without a `baseSeq`
+ * the batch is recorded against the latest stored event.
+ *
+ * Before anything is stored, the batch is replayed against the stored
+ * content it was recorded against. The first event that doesn't apply
+ * cleanly (see `EventSourcingEngine.checkEvent`) and every event after
+ * it are rejected, so a drifted client can never corrupt the history.
+ *
+ * @param supabase - Supabase client (RLS decides who may append)
+ * @param documentId - Document ID
+ * @param events - Validated events, in recording order
+ * @param baseSeq - Seq the events were recorded against, or null if unknown
+ * @returns Stored and rejected events, and what the client needs to catch up
+ */
+export async function appendEvents(
+  supabase: Client,
+  documentId: string,
+  events: WritingEvent[],
+  baseSeq: number | null
+): Promise<AppendResult> {
+  // A retried batch sent without a base was recorded just before the
+  // first of its events that made it into the history
+  const base = baseSeq ?? (await seqBeforeStored(supabase, documentId, events));
+
+  for (let attempt = 1; ; attempt++) {
+    const history = await loadHistory(supabase, documentId, base);
+
+    const checked = EventSourcingEngine.applyEventsChecked(history.baseContent, events);
+    const rejected = new Map(
+      checked.rejections.map((rejection, i) => [events[checked.accepted + i].id, rejection])
+    );
+    const accepted = events.slice(0, checked.accepted);
+
+    const plan =
+      base === null
+        ? { toInsert: accepted, duplicateIds: new Set<string>(), concurrent: [] }
+        : planRebase(accepted, history.later);
+
+    const { data, error } =
+      plan.toInsert.length > 0
+        ? await supabase.rpc('append_events', {
+            p_document_id: documentId,
+            p_expected_seq: history.headSeq,
+            p_events: plan.toInsert as unknown as Json,
+          })
+        : { data: [], error: null };
+
+    if (error) {
+      // Another batch was appended after we read the history: rebase again
+      if (error.code === HEAD_MOVED && attempt < MAX_APPEND_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+
+    const inserted = data ?? [];
+    const insertedIds = new Set(inserted.map((row) => row.id));
+    for (const event of plan.toInsert) {
+      if (!insertedIds.has(event.id)) {
+        plan.duplicateIds.add(event.id);
+      }
+    }
+
+    return {
+      inserted,
+      duplicateIds: plan.duplicateIds,
+      concurrent: plan.concurrent,
+      headSeq: inserted.length > 0 ? inserted[inserted.length - 1].seq : history.headSeq,
+      rejected,
+    };
+  }
+}
+
+/**
+ * Seq just before the earliest already-stored event of a batch
+ *
+ * @returns null if none of the events is stored
+ */
+async function seqBeforeStored(
+  supabase: Client,
+  documentId: string,
+  events: WritingEvent[]
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('writing_events')
+    .select('seq')
+    .eq('document_id', documentId)
+    .in('id', events.map((event) => event.id))
+    .order('seq', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? data.seq - 1 : null;
+}
+
+/**
+ * Stored history around the seq a batch was recorded against
+ */
+interface History {
+  /** Content after every event up to `baseSeq` (or all events) */
+  baseContent: string;
+  /** Events after `baseSeq`, in seq order */
+  later: WritingEvent[];
+  /** Seq of the latest stored event (0 if there are none) */
+  headSeq: number;
+}
+
+/**
+ * Replay the stored history up to `baseSeq`, from the nearest checkpoint
+ *
+ * Checkpoints are numbered by event count, so the checkpoint used is the
+ * latest one that covers fewer events than those up to `baseSeq`. At
+ * least one event is then fetched, which tells us the head seq.
+ */
+async function loadHistory(
+  supabase: Client,
+  documentId: string,
+  baseSeq: number | null
+): Promise<History> {
+  const lineage = await fetchLineage(supabase, documentId);
+  const count = await countEvents(supabase, documentId, { throughSeq: baseSeq, lineage });
+
+  const { data: checkpoint, error: checkpointError } = await supabase
+    .from('checkpoints')
+    .select('*')
+    .eq('document_id', documentId)
+    .lt('event_count', count)
+    .order('event_count', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (checkpointError) {
+    throw checkpointError;
+  }
+
+  const events = await fetchAllEvents(supabase, documentId, {
+    offset: checkpoint?.event_count ?? 0,
+    limit: 1000,
+    lineage,
+  });
+
+  const split =
+    baseSeq === null ? events.length : events.findIndex((event) => (event.seq ?? 0) > baseSeq);
+  const upToBase = split === -1 ? events : events.slice(0, split);
+
+  return {
+    baseContent: EventSourcingEngine.applyEvents(checkpoint?.full_content ?? '', upToBase),
+    later: split === -1 ? [] : events.slice(split),
+    headSeq: events[events.length - 1]?.seq ?? 0,
+  };
+}
+
+/**
+ * Work out what to insert for a batch recorded before `later`
+ */
+function planRebase(events: WritingEvent[], later: WritingEvent[]) {
+  const sentIds = new Set(events.map((event) => event.id));
+  const firstOwn = later.findIndex((event) => sentIds.has(event.id));
+
+  if (firstOwn === -1) {
+    const { events: toInsert, concurrent } = rebaseEvents(events, later);
+    return { toInsert, duplicateIds: new Set<string>(), concurrent };
+  }
+
+  // Part of this batch is already stored (a retry after a lost response)
+  const stored = new Set(later.filter((event) => sentIds.has(event.id)).map((event) => event.id));
+  const before = later.slice(0, firstOwn);
+  const after = later.slice(firstOwn).filter((event) => !sentIds.has(event.id));
+  const unsent = events.filter((event) => !stored.has(event.id));
+
+  if (unsent.length === 0) {
+    // Everything landed: the client only misses what others wrote around it
+    return {
+      toInsert: [],
+      duplicateIds: stored,
+      concurrent: [...rebaseEvents(events, before).concurrent, ...after],
+    };
+  }
+
+  // Rare: only some events landed. Rebase the rest over the other
+  // devices' events; the stored ones are treated as already applied.
+  const { events: toInsert, concurrent } = rebaseEvents(unsent, [...before, ...after]);
+  return { toInsert, duplicateIds: stored, concurrent };
+}
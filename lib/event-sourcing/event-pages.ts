@@ -0,0 +1,301 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { WritingEvent } from '@/types/events';
+
+type Client = SupabaseClient<Database>;
+
+/**
+ * Event Cursor
+ *
+ * Keyset position in a document's history. Events are ordered by their
+ * per-document `seq`, which is unique, so it alone identifies where a
+ * page ended (rather than a `(timestamp, id)` pair), and the unique
+ * `(document_id, seq)` index from migration 010 serves every page.
+ */
+export interface EventCursor {
+  seq: number;
+}
+
+/**
+ * History Segment
+ *
+ * Part of a document's history and the document it is stored under. A
+ * fork's inherited events stay with its parent (migration 015), so its
+ * history is the parent's events up to the fork point followed by its
+ * own; seq runs on across segments without gaps.
+ */
+export interface HistorySegment {
+  /** Document the events are stored under */
+  documentId: string;
+  /** Events with a seq after this one... */
+  afterSeq: number;
+  /** ...up to and including this one (null: no upper bound) */
+  throughSeq: number | null;
+}
+
+/**
+ * Lineage of a document that is not a fork: its own events only
+ *
+ * @param documentId - Document ID
+ * @returns Single segment covering the whole history
+ */
+export function ownHistory(documentId: string): HistorySegment[] {
+  return [{ documentId, afterSeq: 0, throughSeq: null }];
+}
+
+/**
+ * Fetch where each part of a document's history is stored
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @returns Segments, oldest first (the document's own events last)
+ */
+export async function fetchLineage(
+  supabase: Client,
+  documentId: string
+): Promise<HistorySegment[]> {
+  const { data, error } = await supabase.rpc('document_lineage', {
+    p_document_id: documentId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  // Lineage is only visible to readers of the document; for anyone
+  // else RLS hides the events either way
+  if (!data || data.length === 0) {
+    return ownHistory(documentId);
+  }
+
+  return data.map((row) => ({
+    documentId: row.document_id,
+    afterSeq: row.after_seq,
+    throughSeq: row.through_seq,
+  }));
+}
+
+/**
+ * Event Page Query
+ */
+export interface EventPageQuery {
+  /** Continue after this cursor (takes precedence over offset) */
+  cursor?: EventCursor | null;
+  /** Rows to skip before the first page (legacy pagination, checkpoints) */
+  offset?: number;
+  /** Maximum events in the page */
+  limit: number;
+  /** Only events strictly after this timestamp */
+  sinceTimestamp?: number | null;
+  /** Where the history is stored (fetched when omitted) */
+  lineage?: HistorySegment[];
+}
+
+/**
+ * Event Page
+ */
+export interface EventPage {
+  events: WritingEvent[];
+  /** Cursor for the next page, or null when this was the last page */
+  nextCursor: EventCursor | null;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ *
+ * @param cursor - Keyset position
+ * @returns base64url-encoded cursor
+ */
+export function encodeEventCursor(cursor: EventCursor): string {
+  return Buffer.from(JSON.stringify([cursor.seq])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by `encodeEventCursor`
+ *
+ * @param value - Opaque cursor string
+ * @returns Keyset position, or null if the cursor is malformed
+ */
+export function decodeEventCursor(value: string): EventCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (Array.isArray(parsed) && Number.isSafeInteger(parsed[0]) && parsed[0] >= 0) {
+      return { seq: parsed[0] };
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+}
+
+/**
+ * Fetch one page of events in `seq` order
+ *
+ * A fork's inherited events are read from the documents they are stored
+ * under and returned as part of the fork's history (with its
+ * `document_id`).
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @param query - Page position and size
+ * @returns Events and the cursor for the next page
+ */
+export async function fetchEventPage(
+  supabase: Client,
+  documentId: string,
+  query: EventPageQuery
+): Promise<EventPage> {
+  const { cursor, offset = 0, limit, sinceTimestamp } = query;
+  const lineage = query.lineage ?? (await fetchLineage(supabase, documentId));
+
+  const events: WritingEvent[] = [];
+  const afterSeq = cursor?.seq ?? 0;
+  let skip = cursor ? 0 : offset;
+
+  for (const segment of lineage) {
+    const remaining = limit - events.length;
+    if (remaining <= 0) break;
+
+    const from = Math.max(segment.afterSeq, afterSeq);
+    if (segment.throughSeq !== null && segment.throughSeq <= from) continue;
+
+    // Skip whole segments before the offset without fetching them
+    if (skip > 0 && segment.throughSeq !== null) {
+      const { count, error } = await segmentQuery(
+        supabase,
+        { ...segment, afterSeq: from },
+        sinceTimestamp,
+        { count: 'exact', head: true }
+      );
+      if (error) {
+        throw error;
+      }
+      if ((count ?? 0) <= skip) {
+        skip -= count ?? 0;
+        continue;
+      }
+    }
+
+    const { data, error } = await segmentQuery(
+      supabase,
+      { ...segment, afterSeq: from },
+      sinceTimestamp
+    )
+      .order('seq', { ascending: true })
+      .range(skip, skip + remaining - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    skip = 0;
+    for (const event of (data ?? []) as WritingEvent[]) {
+      events.push(
+        event.document_id === documentId ? event : { ...event, document_id: documentId }
+      );
+    }
+  }
+
+  const last = events[events.length - 1];
+
+  return {
+    events,
+    nextCursor:
+      events.length === limit && last?.seq !== undefined ? { seq: last.seq } : null,
+  };
+}
+
+/**
+ * Count the events in a document's history
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @param options - Count only up to `throughSeq`; lineage if already known
+ * @returns Number of events
+ */
+export async function countEvents(
+  supabase: Client,
+  documentId: string,
+  options: { throughSeq?: number | null; lineage?: HistorySegment[] } = {}
+): Promise<number> {
+  const lineage = options.lineage ?? (await fetchLineage(supabase, documentId));
+  const limit = options.throughSeq ?? null;
+  let total = 0;
+
+  for (const segment of lineage) {
+    const throughSeq =
+      segment.throughSeq === null || limit === null
+        ? segment.throughSeq ?? limit
+        : Math.min(segment.throughSeq, limit);
+    if (throughSeq !== null && throughSeq <= segment.afterSeq) continue;
+
+    const { count, error } = await segmentQuery(supabase, { ...segment, throughSeq }, null, {
+      count: 'exact',
+      head: true,
+    });
+    if (error) {
+      throw error;
+    }
+
+    total += count ?? 0;
+  }
+
+  return total;
+}
+
+/**
+ * Query the events of one history segment
+ */
+function segmentQuery(
+  supabase: Client,
+  segment: HistorySegment,
+  sinceTimestamp: number | null | undefined,
+  options?: { count: 'exact'; head: true }
+) {
+  let query = supabase
+    .from('writing_events')
+    .select('*', options)
+    .eq('document_id', segment.documentId);
+
+  if (segment.afterSeq > 0) {
+    query = query.gt('seq', segment.afterSeq);
+  }
+
+  if (segment.throughSeq !== null) {
+    query = query.lte('seq', segment.throughSeq);
+  }
+
+  if (sinceTimestamp !== undefined && sinceTimestamp !== null) {
+    query = query.gt('timestamp', sinceTimestamp);
+  }
+
+  return query;
+}
+
+/**
+ * Fetch every event from a starting position, following cursors
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @param firstPage - Query for the first page; later pages use cursors
+ * @returns All events from that position on, in order
+ */
+export async function fetchAllEvents(
+  supabase: Client,
+  documentId: string,
+  firstPage: EventPageQuery
+): Promise<WritingEvent[]> {
+  const events: WritingEvent[] = [];
+  let query: EventPageQuery | null = {
+    ...firstPage,
+    lineage: firstPage.lineage ?? (await fetchLineage(supabase, documentId)),
+  };
+
+  while (query) {
+    const page: EventPage = await fetchEventPage(supabase, documentId, query);
+    events.push(...page.events);
+    query = page.nextCursor ? { ...query, cursor: page.nextCursor } : null;
+  }
+
+  return events;
+}
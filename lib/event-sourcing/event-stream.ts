@@ -0,0 +1,224 @@
+import { withShareToken } from '@/lib/auth/document-access';
+import type { Checkpoint, WritingEvent } from '@/types/events';
+
+/**
+ * Event Stream Options
+ */
+export interface EventStreamOptions {
+  /** Share token for unlisted documents */
+  shareToken?: string | null;
+  /** Start after the latest checkpoint instead of the first event */
+  fromCheckpoint?: boolean;
+  /** Start after this seq instead of the first event (paged mode only) */
+  afterSeq?: number;
+  /** Events per request (paged mode) or per yielded batch (NDJSON mode) */
+  pageSize?: number;
+  /** Abort the download */
+  signal?: AbortSignal;
+}
+
+/**
+ * Event Stream Batch
+ *
+ * A chunk of history, in order. Apply batches as they arrive to start
+ * replaying before the download has finished.
+ */
+export interface EventStreamBatch {
+  /** Events in this batch */
+  events: WritingEvent[];
+  /** Checkpoint the history starts from (null if from the beginning) */
+  checkpoint: Checkpoint | null;
+  /** Events received so far, including this batch */
+  loaded: number;
+  /** Whether this is the final batch */
+  done: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Turn a failed events response into a reader-facing error
+ *
+ * @param response - Non-OK response
+ * @returns Error with a user-friendly message
+ */
+export function eventFetchError(response: Response): Error {
+  if (response.status === 404) {
+    return new Error('Document not found');
+  } else if (response.status === 403) {
+    return new Error('You do not have permission to view this document');
+  } else if (response.status >= 500) {
+    return new Error('Server error. Please try again later.');
+  }
+  return new Error(`Failed to fetch events: ${response.statusText}`);
+}
+
+function eventsUrl(documentId: string, params: Record<string, string | undefined>, shareToken?: string | null) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  return withShareToken(`/api/documents/${documentId}/events?${query.toString()}`, shareToken);
+}
+
+/**
+ * Page through a document's full history with keyset cursors
+ *
+ * Usage:
+ * ```ts
+ * for await (const batch of fetchEventPages(id, { fromCheckpoint: true })) {
+ *   content = EventSourcingEngine.applyEvents(content, batch.events);
+ * }
+ * ```
+ *
+ * @param documentId - Document ID
+ * @param options - Stream options
+ * @returns Async generator yielding one batch per page
+ */
+export async function* fetchEventPages(
+  documentId: string,
+  options: EventStreamOptions = {}
+): AsyncGenerator<EventStreamBatch> {
+  const {
+    shareToken,
+    fromCheckpoint = false,
+    afterSeq,
+    pageSize = DEFAULT_PAGE_SIZE,
+    signal,
+  } = options;
+
+  let cursor: string | null = null;
+  let checkpoint: Checkpoint | null = null;
+  let loaded = 0;
+
+  do {
+    const url = eventsUrl(
+      documentId,
+      {
+        limit: String(pageSize),
+        cursor: cursor ?? undefined,
+        after_seq: afterSeq !== undefined && !cursor ? String(afterSeq) : undefined,
+        from_checkpoint: fromCheckpoint && !cursor ? 'true' : undefined,
+      },
+      shareToken
+    );
+
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw eventFetchError(response);
+    }
+
+    const data = await response.json();
+    const events: WritingEvent[] = data.events || [];
+    if (!cursor) {
+      checkpoint = data.checkpoint ?? null;
+    }
+
+    cursor = data.next_cursor ?? null;
+    loaded += events.length;
+
+    yield { events, checkpoint, loaded, done: cursor === null };
+  } while (cursor);
+}
+
+/**
+ * Stream a document's full history over a single NDJSON response
+ *
+ * Lower latency than paging for large histories: the server keeps
+ * querying pages while earlier events are already being replayed.
+ *
+ * @param documentId - Document ID
+ * @param options - Stream options (pageSize sets the batch size)
+ * @returns Async generator yielding batches of events
+ */
+export async function* streamEvents(
+  documentId: string,
+  options: EventStreamOptions = {}
+): AsyncGenerator<EventStreamBatch> {
+  const { shareToken, fromCheckpoint = false, pageSize = DEFAULT_PAGE_SIZE, signal } = options;
+
+  const url = eventsUrl(
+    documentId,
+    { format: 'ndjson', from_checkpoint: fromCheckpoint ? 'true' : undefined },
+    shareToken
+  );
+
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw eventFetchError(response);
+  }
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let batch: WritingEvent[] = [];
+  let checkpoint: Checkpoint | null = null;
+  let loaded = 0;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const message = JSON.parse(line);
+
+        switch (message.type) {
+          case 'checkpoint':
+            checkpoint = message.checkpoint ?? null;
+            break;
+          case 'event':
+            batch.push(message.event);
+            loaded++;
+            if (batch.length >= pageSize) {
+              yield { events: batch, checkpoint, loaded, done: false };
+              batch = [];
+            }
+            break;
+          case 'error':
+            throw new Error(message.error || 'Failed to fetch events');
+          case 'end':
+            yield { events: batch, checkpoint, loaded, done: true };
+            return;
+        }
+      }
+    }
+  } finally {
+    // Stop the download when the caller stops early (break, abort, error);
+    // a no-op once the stream has ended
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+
+  // Stream closed without an end marker
+  throw new Error('Event stream ended unexpectedly');
+}
+
+/**
+ * Download a document's full history
+ *
+ * @param documentId - Document ID
+ * @param options - Stream options
+ * @returns All events (after the checkpoint, if requested) and the checkpoint
+ */
+export async function loadEventHistory(
+  documentId: string,
+  options: EventStreamOptions = {}
+): Promise<{ events: WritingEvent[]; checkpoint: Checkpoint | null }> {
+  const events: WritingEvent[] = [];
+  let checkpoint: Checkpoint | null = null;
+
+  for await (const batch of fetchEventPages(documentId, options)) {
+    events.push(...batch.events);
+    checkpoint = batch.checkpoint;
+  }
+
+  return { events, checkpoint };
+}
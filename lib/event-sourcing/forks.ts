@@ -0,0 +1,44 @@
+import type { Document } from '@/types/supabase';
+
+/** Longest document title (matches `Validators.documentTitle`) */
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * Default title of a fork
+ *
+ * @param title - Title of the parent
+ * @returns Parent title marked as a fork, within the title limit
+ */
+export function forkTitle(title: string): string {
+  const suffix = ' (fork)';
+  return `${title.trim().slice(0, MAX_TITLE_LENGTH - suffix.length)}${suffix}`;
+}
+
+/**
+ * Fork a document through the API
+ *
+ * The fork shares the parent's history up to `eventCount` and continues
+ * on its own from there.
+ *
+ * @param documentId - Document to fork
+ * @param options - Events to inherit (defaults to the whole synced
+ *   history) and title (defaults to `forkTitle`)
+ * @returns Created document
+ */
+export async function requestFork(
+  documentId: string,
+  options: { eventCount?: number; title?: string } = {}
+): Promise<Document> {
+  const response = await fetch(`/api/documents/${documentId}/fork`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ event_count: options.eventCount, title: options.title }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to fork document: ${response.statusText}`);
+  }
+
+  return data.document;
+}
@@ -0,0 +1,321 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { WritingEvent, WritingEventInsert } from '@/types/events';
+import { DocumentBuffer } from './document-buffer';
+
+/**
+ * Live Connection Status
+ *
+ * - connecting: Subscribing (or catching up after a reconnect)
+ * - live: Receiving events as they are written
+ * - disconnected: Connection lost; a reconnect is scheduled
+ */
+export type LiveStatus = 'connecting' | 'live' | 'disconnected';
+
+/**
+ * Live Channel Handlers
+ */
+export interface LiveChannelHandlers {
+  /** A new event was stored */
+  onEvent: (event: WritingEvent) => void;
+  /** The subscription came up ('live') or went down ('disconnected') */
+  onStatus: (status: Exclude<LiveStatus, 'connecting'>) => void;
+}
+
+/**
+ * Live Event Channel
+ *
+ * Source of newly stored events for one document. The app uses Supabase
+ * Realtime; tests can drive a `MockLiveChannel` instead.
+ */
+export interface LiveEventChannel {
+  /**
+   * Start listening
+   *
+   * @returns Function that stops listening
+   */
+  connect: (handlers: LiveChannelHandlers) => () => void;
+}
+
+/**
+ * Live channel backed by Supabase Realtime
+ *
+ * Listens for inserts into `writing_events` for one document. Realtime
+ * applies RLS, so only readable (public or owned) documents deliver events.
+ *
+ * @param supabase - Browser Supabase client
+ * @param documentId - Document to follow
+ * @returns Live event channel
+ */
+export function createRealtimeChannel(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): LiveEventChannel {
+  return {
+    connect({ onEvent, onStatus }) {
+      const channel = supabase
+        .channel(`writing_events:${documentId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'writing_events',
+            filter: `document_id=eq.${documentId}`,
+          },
+          (payload) => onEvent(payload.new as WritingEvent)
+        )
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+            onStatus('live');
+          } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+            onStatus('disconnected');
+          }
+        });
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    },
+  };
+}
+
+/**
+ * In-memory live channel for tests and local development
+ *
+ * Usage:
+ * ```ts
+ * const channel = new MockLiveChannel();
+ * const follower = new LiveDocumentFollower({ channel, ... });
+ * follower.start();
+ * channel.open();
+ * channel.emit(event);
+ * channel.drop(); // simulate a lost connection
+ * ```
+ */
+export class MockLiveChannel implements LiveEventChannel {
+  private handlers: LiveChannelHandlers | null = null;
+
+  /** Number of times `connect` was called (reconnects included) */
+  connectCount = 0;
+
+  connect(handlers: LiveChannelHandlers): () => void {
+    this.handlers = handlers;
+    this.connectCount++;
+
+    return () => {
+      if (this.handlers === handlers) {
+        this.handlers = null;
+      }
+    };
+  }
+
+  /** Whether a follower is currently connected */
+  get connected(): boolean {
+    return this.handlers !== null;
+  }
+
+  /** Report the subscription as established */
+  open(): void {
+    this.handlers?.onStatus('live');
+  }
+
+  /** Deliver an event, as if it had just been stored */
+  emit(event: WritingEvent): void {
+    this.handlers?.onEvent(event);
+  }
+
+  /** Report the connection as lost */
+  drop(): void {
+    this.handlers?.onStatus('disconnected');
+  }
+}
+
+/**
+ * Live Document State
+ */
+export interface LiveDocumentState {
+  content: string;
+  /** Author's caret, as left by their latest edit (null before any) */
+  cursorPosition: number | null;
+  /** Seq of the last applied event */
+  lastSeq: number;
+  status: LiveStatus;
+}
+
+/**
+ * Live Document Follower Options
+ */
+export interface LiveDocumentFollowerOptions {
+  channel: LiveEventChannel;
+  /**
+   * Fetch events stored after a seq, in seq order. Used to catch up on
+   * every (re)connect, since events written while disconnected are
+   * never redelivered by the channel.
+   */
+  fetchEventsAfter: (seq: number) => Promise<WritingEvent[]>;
+  /** Content the reader already shows */
+  initialContent: string;
+  /** Seq of the last event included in `initialContent` */
+  initialSeq: number;
+  /** Called after every state change */
+  onChange: (state: LiveDocumentState) => void;
+  /** Delay before the first reconnect attempt (doubles up to 30s) */
+  reconnectDelayMs?: number;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Caret position after an event, for showing where the author is typing
+ */
+export function caretAfterEvent(event: WritingEventInsert): number {
+  return event.event_type === 'delete'
+    ? event.position
+    : event.position + (event.content?.length ?? 0);
+}
+
+/**
+ * Live Document Follower
+ *
+ * Keeps a document's content in step with its author while they write.
+ *
+ * Events from the channel are applied one at a time. On every
+ * (re)connect the follower first fetches what it missed after the last
+ * applied seq, holding back live events until the catch-up is done, so
+ * nothing is skipped or applied twice.
+ */
+export class LiveDocumentFollower {
+  private state: LiveDocumentState;
+  private disconnect: (() => void) | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private catchingUp = false;
+  private heldBack: WritingEvent[] = [];
+  private stopped = true;
+
+  constructor(private readonly options: LiveDocumentFollowerOptions) {
+    this.state = {
+      content: options.initialContent,
+      cursorPosition: null,
+      lastSeq: options.initialSeq,
+      status: 'connecting',
+    };
+  }
+
+  /** Current state */
+  getState(): LiveDocumentState {
+    return this.state;
+  }
+
+  /** Start following the document */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+    this.connect();
+  }
+
+  /** Stop following and release the channel */
+  stop(): void {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.disconnect?.();
+    this.disconnect = null;
+  }
+
+  private connect(): void {
+    this.update({ status: 'connecting' });
+    this.disconnect = this.options.channel.connect({
+      onEvent: (event) => this.receive(event),
+      onStatus: (status) => {
+        if (status === 'live') {
+          this.catchUp();
+        } else {
+          this.scheduleReconnect();
+        }
+      },
+    });
+  }
+
+  private receive(event: WritingEvent): void {
+    if (this.catchingUp) {
+      this.heldBack.push(event);
+    } else {
+      this.apply([event]);
+    }
+  }
+
+  private async catchUp(): Promise<void> {
+    this.catchingUp = true;
+
+    let missed: WritingEvent[];
+    try {
+      missed = await this.options.fetchEventsAfter(this.state.lastSeq);
+    } catch (error) {
+      console.error('Live catch-up failed:', error);
+      // Held-back events would leave a gap; the next catch-up covers them
+      this.catchingUp = false;
+      this.heldBack = [];
+      this.scheduleReconnect();
+      return;
+    }
+
+    const heldBack = this.heldBack;
+    this.catchingUp = false;
+    this.heldBack = [];
+    if (this.stopped) return;
+
+    this.apply([...missed, ...heldBack]);
+    this.reconnectAttempts = 0;
+    this.update({ status: 'live' });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return;
+
+    this.disconnect?.();
+    this.disconnect = null;
+    this.update({ status: 'disconnected' });
+
+    const baseDelay = this.options.reconnectDelayMs ?? 1000;
+    const delayMs = Math.min(baseDelay * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        this.connect();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Apply events that are newer than the last applied one
+   */
+  private apply(events: WritingEvent[]): void {
+    const fresh = events
+      .filter((event) => event.seq !== undefined && event.seq > this.state.lastSeq)
+      .sort((a, b) => a.seq! - b.seq!);
+
+    if (fresh.length === 0) return;
+
+    const buffer = new DocumentBuffer(this.state.content);
+    let { cursorPosition, lastSeq } = this.state;
+    for (const event of fresh) {
+      if (event.seq! <= lastSeq) continue; // delivered twice
+      buffer.apply(event);
+      cursorPosition = caretAfterEvent(event);
+      lastSeq = event.seq!;
+    }
+
+    this.update({ content: buffer.toString(), cursorPosition, lastSeq });
+  }
+
+  private update(patch: Partial<LiveDocumentState>): void {
+    this.state = { ...this.state, ...patch };
+    this.options.onChange(this.state);
+  }
+}
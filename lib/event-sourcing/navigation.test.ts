@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { WritingEvent } from '@/types/events';
+import { findNextLongPause, findNextSessionStart, findStepTarget } from './navigation';
+
+/** One insert event per string, typed one second apart */
+function typed(texts: string[], sessions: string[] = []): WritingEvent[] {
+  let position = 0;
+
+  return texts.map((text, i) => {
+    const event: WritingEvent = {
+      id: `event-${i}`,
+      document_id: 'doc',
+      session_id: sessions[i] ?? 'session',
+      timestamp: i * 1000,
+      event_type: 'insert',
+      position,
+      content: text,
+      content_before: null,
+    };
+    position += text.length;
+    return event;
+  });
+}
+
+// "Hi there. Ok!" typed a character or two at a time
+const events = typed(['H', 'i', ' ', 'th', 'ere', '.', ' ', 'O', 'k', '!']);
+
+describe('findStepTarget', () => {
+  it('steps one event, stopping at either end', () => {
+    expect(findStepTarget(events, 3, 1)).toBe(4);
+    expect(findStepTarget(events, 3, -1)).toBe(2);
+    expect(findStepTarget(events, 9, 1)).toBe(9);
+    expect(findStepTarget(events, 0, -1)).toBe(0);
+    expect(findStepTarget(events, -1, 1)).toBe(0);
+  });
+
+  it('steps to the event that ends the next word', () => {
+    expect(findStepTarget(events, -1, 1, 'word')).toBe(2);
+    expect(findStepTarget(events, 2, 1, 'word')).toBe(6);
+  });
+
+  it('steps back to the event that ended the previous word', () => {
+    expect(findStepTarget(events, 6, -1, 'word')).toBe(2);
+    expect(findStepTarget(events, 2, -1, 'word')).toBe(0);
+  });
+
+  it('steps to the event that ends the next sentence', () => {
+    expect(findStepTarget(events, -1, 1, 'sentence')).toBe(5);
+    expect(findStepTarget(events, 5, 1, 'sentence')).toBe(9);
+    expect(findStepTarget(events, 9, -1, 'sentence')).toBe(5);
+  });
+
+  it('counts line breaks as sentence ends', () => {
+    const lines = typed(['a', '\n', 'b']);
+
+    expect(findStepTarget(lines, 0, 1, 'sentence')).toBe(1);
+  });
+
+  it('goes to the last event when no boundary is left', () => {
+    expect(findStepTarget(events, 6, 1, 'word')).toBe(9);
+  });
+
+  it('ignores deletions, which type nothing', () => {
+    const withDelete: WritingEvent[] = [
+      ...typed(['a', 'b']),
+      {
+        ...typed(['x'])[0],
+        id: 'delete',
+        event_type: 'delete',
+        content: null,
+        content_before: ' ',
+      },
+      ...typed(['c']),
+    ];
+
+    expect(findStepTarget(withDelete, -1, 1, 'word')).toBe(3);
+  });
+
+  it('returns 0 for an empty history', () => {
+    expect(findStepTarget([], 0, 1, 'sentence')).toBe(0);
+  });
+});
+
+describe('findNextSessionStart', () => {
+  it('finds the first event of the next session', () => {
+    const sessions = typed(['a', 'b', 'c', 'd'], ['one', 'one', 'two', 'two']);
+
+    expect(findNextSessionStart(sessions, -1)).toBe(2);
+    expect(findNextSessionStart(sessions, 2)).toBe(-1);
+  });
+});
+
+describe('findNextLongPause', () => {
+  it('finds the last event before a long gap', () => {
+    const paused = typed(['a', 'b', 'c']);
+    paused[2] = { ...paused[2], timestamp: paused[1].timestamp + 60_000 };
+
+    expect(findNextLongPause(paused, -1)).toBe(1);
+    expect(findNextLongPause(paused, 1)).toBe(-1);
+  });
+});
@@ -0,0 +1,91 @@
+import type { WritingEvent } from '@/types/events';
+
+/**
+ * Step Unit
+ *
+ * - event: One event
+ * - word: To the next event that ends a word (types whitespace)
+ * - sentence: To the next event that ends a sentence (types ., !, ? or a newline)
+ */
+export type StepUnit = 'event' | 'word' | 'sentence';
+
+/** Gaps at least this long count as long pauses */
+export const LONG_PAUSE_MS = 30_000;
+
+const WORD_END = /\s/;
+const SENTENCE_END = /[.!?…\n]/;
+
+/**
+ * Find where a frame step lands
+ *
+ * Word and sentence steps land on the event that typed the boundary, so
+ * the finished word or sentence is on screen.
+ *
+ * @param events - Events in replay order
+ * @param fromIndex - Current event index (-1 before the first event)
+ * @param direction - 1 to step forward, -1 to step back
+ * @param unit - How far to step
+ * @returns Target event index (the first or last event when no boundary is left)
+ */
+export function findStepTarget(
+  events: WritingEvent[],
+  fromIndex: number,
+  direction: 1 | -1,
+  unit: StepUnit = 'event'
+): number {
+  const lastIndex = events.length - 1;
+  if (lastIndex < 0) return 0;
+
+  if (unit === 'event') {
+    return Math.max(0, Math.min(fromIndex + direction, lastIndex));
+  }
+
+  const boundary = unit === 'word' ? WORD_END : SENTENCE_END;
+  for (let i = fromIndex + direction; i >= 0 && i <= lastIndex; i += direction) {
+    const text = events[i].content;
+    if (text && boundary.test(text)) {
+      return i;
+    }
+  }
+
+  return direction > 0 ? lastIndex : 0;
+}
+
+/**
+ * Find the first event of the next writing session
+ *
+ * @param events - Events in replay order
+ * @param fromIndex - Current event index (-1 before the first event)
+ * @returns Event index, or -1 if no later session exists
+ */
+export function findNextSessionStart(events: WritingEvent[], fromIndex: number): number {
+  for (let i = Math.max(1, fromIndex + 1); i < events.length; i++) {
+    if (events[i].session_id !== events[i - 1].session_id) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Find the next long pause
+ *
+ * @param events - Events in replay order
+ * @param fromIndex - Current event index (-1 before the first event)
+ * @param minPauseMs - Shortest gap that counts as a long pause
+ * @returns Index of the last event before the pause, or -1 if none is left
+ */
+export function findNextLongPause(
+  events: WritingEvent[],
+  fromIndex: number,
+  minPauseMs: number = LONG_PAUSE_MS
+): number {
+  for (let i = Math.max(0, fromIndex + 1); i < events.length - 1; i++) {
+    if (events[i + 1].timestamp - events[i].timestamp >= minPauseMs) {
+      return i;
+    }
+  }
+
+  return -1;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { Checkpoint, WritingEvent } from '@/types/events';
+import { PlaybackIndex } from './playback-index';
+import { buildContentUpToIndex, findEventIndexAtPlaybackTime } from './replay';
+import { realTimeTiming, skipIdleTiming } from './timing';
+
+/**
+ * Someone typing with pauses of every length, now and then deleting
+ * back or inserting earlier in the text
+ */
+function history(count: number): WritingEvent[] {
+  const events: WritingEvent[] = [];
+  let content = '';
+  let timestamp = 1_000_000;
+
+  for (let i = 0; i < count; i++) {
+    // Mostly keystrokes, some thinking pauses, a few long breaks
+    timestamp += i % 97 === 0 ? 45_000 : i % 13 === 0 ? 4_000 : 80 + (i % 7) * 30;
+    const base = {
+      id: `event-${i}`,
+      document_id: 'doc',
+      session_id: 'session',
+      seq: i + 1,
+      timestamp,
+    };
+
+    if (i % 11 === 10 && content.length > 0) {
+      const position = content.length - 1;
+      events.push({
+        ...base,
+        event_type: 'delete',
+        position,
+        content: null,
+        content_before: content.slice(position),
+      });
+      content = content.slice(0, position);
+    } else {
+      const position = i % 17 === 0 ? Math.floor(content.length / 2) : content.length;
+      const text = String.fromCharCode(97 + (i % 26));
+      events.push({ ...base, event_type: 'insert', position, content: text, content_before: null });
+      content = content.slice(0, position) + text + content.slice(position);
+    }
+  }
+
+  return events;
+}
+
+const events = history(3500);
+
+describe('PlaybackIndex.indexAtTime', () => {
+  it('finds the same event as the linear search', () => {
+    const index = new PlaybackIndex(events);
+
+    for (let time = -10; time <= index.duration + 5000; time += 997) {
+      expect(index.indexAtTime(time)).toBe(findEventIndexAtPlaybackTime(events, time));
+    }
+  });
+
+  it('agrees with the linear search exactly at event times', () => {
+    const index = new PlaybackIndex(events);
+
+    for (let i = 0; i < events.length; i += 123) {
+      const time = index.timeAt(i);
+      expect(index.indexAtTime(time)).toBe(findEventIndexAtPlaybackTime(events, time));
+    }
+  });
+
+  it('uses the timing strategy it was built with', () => {
+    for (const timing of [realTimeTiming, skipIdleTiming()]) {
+      const index = new PlaybackIndex(events, { timing });
+
+      for (let time = 0; time <= index.duration; time += index.duration / 50) {
+        expect(index.indexAtTime(time)).toBe(
+          findEventIndexAtPlaybackTime(events, time, 1, timing)
+        );
+      }
+    }
+  });
+
+  it('handles an empty history', () => {
+    const index = new PlaybackIndex([]);
+
+    expect(index.indexAtTime(1000)).toBe(0);
+    expect(index.duration).toBe(0);
+  });
+});
+
+describe('PlaybackIndex.contentAt', () => {
+  const indices = [-1, 0, 1, 998, 999, 1000, 1001, 1999, 2500, 3499, 5000];
+
+  it('builds the same content as a full replay', () => {
+    const index = new PlaybackIndex(events);
+
+    for (const eventIndex of indices) {
+      expect(index.contentAt(eventIndex)).toBe(buildContentUpToIndex(events, eventIndex));
+    }
+  });
+
+  it('gives the same content when seeking backwards after snapshots were recorded', () => {
+    const index = new PlaybackIndex(events);
+
+    for (const eventIndex of [...indices].reverse()) {
+      expect(index.contentAt(eventIndex)).toBe(buildContentUpToIndex(events, eventIndex));
+    }
+  });
+
+  it('starts from checkpoints, on and off the snapshot grid', () => {
+    const checkpoints: Checkpoint[] = [1000, 2345].map((eventCount) => ({
+      id: `checkpoint-${eventCount}`,
+      document_id: 'doc',
+      event_count: eventCount,
+      full_content: buildContentUpToIndex(events, eventCount - 1),
+      created_at: '',
+    }));
+    const index = new PlaybackIndex(events, { checkpoints });
+
+    expect(index.nearestSnapshot(2400).eventCount).toBe(2345);
+    for (const eventIndex of indices) {
+      expect(index.contentAt(eventIndex)).toBe(
+        buildContentUpToIndex(events, eventIndex, checkpoints)
+      );
+    }
+  });
+});
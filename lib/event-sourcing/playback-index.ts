@@ -0,0 +1,199 @@
+import type { Checkpoint, WritingEvent } from '@/types/events';
+import { DocumentBuffer } from './document-buffer';
+import { findCheckpointForIndex } from './replay';
+import { condensedTiming, type TimingStrategy } from './timing';
+
+/**
+ * Playback Snapshot
+ *
+ * Content after the first `eventCount` events.
+ */
+export interface PlaybackSnapshot {
+  eventCount: number;
+  content: string;
+}
+
+/**
+ * Playback Index Options
+ */
+export interface PlaybackIndexOptions {
+  /** Server checkpoints to seed snapshots from */
+  checkpoints?: Checkpoint[];
+  /** Delays between events (condensed by default) */
+  timing?: TimingStrategy;
+}
+
+/**
+ * Playback Index
+ *
+ * Built once per event list so seeking doesn't walk the whole history:
+ *
+ * - Cumulative playback time of every event, so the event at
+ *   a playback time is a binary search away
+ * - Content snapshots every `SNAPSHOT_INTERVAL` events, so the content
+ *   at an event is a short replay from the nearest snapshot
+ *
+ * Snapshots are recorded as replays pass them, so a history is replayed
+ * in full at most once; server checkpoints seed the index up front.
+ *
+ * Times are at 1x speed: divide by the speed multiplier for display.
+ *
+ * Usage:
+ * ```ts
+ * const index = new PlaybackIndex(events, { checkpoints, timing });
+ * const eventIndex = index.indexAtTime(timeMs * speed);
+ * const content = index.contentAt(eventIndex);
+ * ```
+ */
+export class PlaybackIndex {
+  /** Events between snapshots */
+  static readonly SNAPSHOT_INTERVAL = 1000;
+
+  /** Playback time (1x) at which each event is shown */
+  private readonly times: Float64Array;
+  /** Slot k holds the content after the first k * SNAPSHOT_INTERVAL events */
+  private readonly snapshots: (string | undefined)[];
+  private readonly checkpoints: Checkpoint[];
+
+  constructor(
+    readonly events: WritingEvent[],
+    { checkpoints = [], timing = condensedTiming }: PlaybackIndexOptions = {}
+  ) {
+    this.checkpoints = checkpoints;
+
+    this.times = new Float64Array(events.length);
+    for (let i = 1; i < events.length; i++) {
+      this.times[i] =
+        this.times[i - 1] + timing.delay(events[i].timestamp - events[i - 1].timestamp);
+    }
+
+    this.snapshots = new Array(Math.floor(events.length / PlaybackIndex.SNAPSHOT_INTERVAL) + 1);
+    this.snapshots[0] = '';
+    for (const checkpoint of checkpoints) {
+      this.addSnapshot(checkpoint.event_count, checkpoint.full_content);
+    }
+  }
+
+  /** Number of events */
+  get length(): number {
+    return this.events.length;
+  }
+
+  /** Total playback duration at 1x (ms) */
+  get duration(): number {
+    return this.events.length > 0 ? this.times[this.events.length - 1] : 0;
+  }
+
+  /**
+   * Playback time at which an event is shown (1x, ms)
+   */
+  timeAt(eventIndex: number): number {
+    if (this.events.length === 0) return 0;
+    return this.times[Math.max(0, Math.min(eventIndex, this.events.length - 1))];
+  }
+
+  /**
+   * Event index at a playback time
+   *
+   * Same result as `findEventIndexAtPlaybackTime` at 1x with the same
+   * timing: the event shown while the playhead is at `timeMs`.
+   *
+   * @param timeMs - Playback time at 1x
+   * @returns Event index (0-based)
+   */
+  indexAtTime(timeMs: number): number {
+    if (this.events.length === 0 || timeMs <= 0) return 0;
+
+    // First event shown at or after the target; the one before it is current
+    let left = 1;
+    let right = this.events.length;
+
+    while (left < right) {
+      const mid = (left + right) >>> 1;
+      if (this.times[mid] >= timeMs) {
+        right = mid;
+      } else {
+        left = mid + 1;
+      }
+    }
+
+    return left - 1;
+  }
+
+  /**
+   * Newest snapshot usable for an event index
+   *
+   * @param eventIndex - Target event index (inclusive)
+   * @returns Snapshot at or before the index (the empty document at worst)
+   */
+  nearestSnapshot(eventIndex: number): PlaybackSnapshot {
+    const eventCount = Math.max(0, Math.min(eventIndex + 1, this.events.length));
+
+    let slot = Math.floor(eventCount / PlaybackIndex.SNAPSHOT_INTERVAL);
+    while (this.snapshots[slot] === undefined) {
+      slot--;
+    }
+
+    const snapshot = {
+      eventCount: slot * PlaybackIndex.SNAPSHOT_INTERVAL,
+      content: this.snapshots[slot]!,
+    };
+
+    // Checkpoints off the snapshot grid can still be closer
+    const checkpoint = findCheckpointForIndex(this.checkpoints, eventCount - 1);
+    if (checkpoint && checkpoint.event_count > snapshot.eventCount) {
+      return { eventCount: checkpoint.event_count, content: checkpoint.full_content };
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Apply a range of events to a buffer, recording the snapshots it passes
+   *
+   * @param buffer - Content after the first `from` events
+   * @param from - First event to apply
+   * @param to - Event to stop before
+   * @returns The same buffer
+   */
+  replay(buffer: DocumentBuffer, from: number, to: number): DocumentBuffer {
+    const interval = PlaybackIndex.SNAPSHOT_INTERVAL;
+    let position = from;
+
+    while (position < to) {
+      const boundary = Math.min(to, (Math.floor(position / interval) + 1) * interval);
+      buffer.applyAll(this.events.slice(position, boundary));
+      position = boundary;
+      this.addSnapshot(position, buffer);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Content after the event at an index
+   *
+   * Same result as `buildContentUpToIndex`.
+   *
+   * @param eventIndex - Event index to build up to (inclusive)
+   * @returns Content at that index
+   */
+  contentAt(eventIndex: number): string {
+    if (this.events.length === 0 || eventIndex < 0) return '';
+
+    const endIndex = Math.min(eventIndex, this.events.length - 1);
+    const snapshot = this.nearestSnapshot(endIndex);
+
+    return this.replay(new DocumentBuffer(snapshot.content), snapshot.eventCount, endIndex + 1)
+      .toString();
+  }
+
+  private addSnapshot(eventCount: number, content: string | DocumentBuffer): void {
+    if (eventCount % PlaybackIndex.SNAPSHOT_INTERVAL !== 0) return;
+
+    const slot = eventCount / PlaybackIndex.SNAPSHOT_INTERVAL;
+    if (slot < this.snapshots.length && this.snapshots[slot] === undefined) {
+      this.snapshots[slot] = content.toString();
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import type { EventType, WritingEventInsert } from '@/types/events';
+import { applyEvent } from './document-buffer';
+import {
+  advancePlaybackView,
+  buildPlaybackSegments,
+  DELETE_GHOST_MS,
+  EMPTY_PLAYBACK_VIEW,
+  INSERT_HIGHLIGHT_MS,
+  nextExpiry,
+  pruneMarks,
+  type PlaybackMark,
+  type PlaybackView,
+} from './playback-marks';
+
+function event(
+  event_type: EventType,
+  position: number,
+  content: string | null,
+  content_before: string | null = null
+): WritingEventInsert {
+  return {
+    document_id: 'doc',
+    session_id: 'session',
+    timestamp: 0,
+    event_type,
+    position,
+    content,
+    content_before,
+  };
+}
+
+/** Plays events in order from some content, as playback does */
+function play(start: string, events: WritingEventInsert[], now = 0) {
+  let content = start;
+  let view: PlaybackView = { caret: start.length, marks: [] };
+  for (const next of events) {
+    content = applyEvent(content, next);
+    view = advancePlaybackView(view, next, content.length, now);
+  }
+  return { content, view };
+}
+
+function ghosts(view: PlaybackView): { position: number; text: string }[] {
+  return view.marks
+    .filter((mark): mark is Extract<PlaybackMark, { kind: 'ghost' }> => mark.kind === 'ghost')
+    .map(({ position, text }) => ({ position, text }));
+}
+
+/** Deletes one character at a time, leftwards */
+function backspaces(content: string, count: number): WritingEventInsert[] {
+  const events: WritingEventInsert[] = [];
+  for (let i = 1; i <= count; i++) {
+    const position = content.length - i;
+    events.push(event('delete', position, null, content[position]));
+  }
+  return events;
+}
+
+describe('ghost merging', () => {
+  it('backspacing a word leaves a single ghost of the word', () => {
+    const { content, view } = play('hello world', backspaces('hello world', 5));
+
+    expect(content).toBe('hello ');
+    expect(ghosts(view)).toEqual([{ position: 6, text: 'world' }]);
+    expect(view.caret).toBe(6);
+  });
+
+  it('forward deletes grow the ghost in reading order', () => {
+    const { view } = play('hello world', [
+      event('delete', 6, null, 'w'),
+      event('delete', 6, null, 'o'),
+      event('delete', 6, null, 'r'),
+    ]);
+
+    expect(ghosts(view)).toEqual([{ position: 6, text: 'wor' }]);
+  });
+
+  it('a deletion spanning a ghost takes its text in place', () => {
+    const { content, view } = play('abcdef', [
+      event('delete', 2, null, 'c'),
+      event('delete', 1, null, 'bd'),
+    ]);
+
+    expect(content).toBe('aef');
+    expect(ghosts(view)).toEqual([{ position: 1, text: 'bcd' }]);
+  });
+
+  it('a ghost stays in front of text typed at its position', () => {
+    const { content, view } = play('hello world', [
+      ...backspaces('hello world', 5),
+      event('insert', 6, 'there'),
+    ]);
+
+    expect(content).toBe('hello there');
+    expect(ghosts(view)).toEqual([{ position: 6, text: 'world' }]);
+    expect(buildPlaybackSegments(content, view)).toEqual([
+      { kind: 'text', text: 'hello ' },
+      { kind: 'ghost', id: expect.any(Number), text: 'world' },
+      { kind: 'insert', id: expect.any(Number), text: 'there' },
+      { kind: 'caret' },
+    ]);
+  });
+
+  it('ghosts move with edits before them and stay apart from later deletions', () => {
+    const { view } = play('one two', [
+      event('delete', 0, null, 'o'),
+      event('insert', 0, 'ON'),
+      event('delete', 5, null, 'two'),
+    ]);
+
+    expect(ghosts(view)).toEqual([
+      { position: 0, text: 'o' },
+      { position: 5, text: 'two' },
+    ]);
+  });
+});
+
+describe('mark expiry', () => {
+  it('highlights fade before ghosts', () => {
+    const { view } = play('ab', [event('delete', 1, null, 'b'), event('insert', 1, 'c')], 1000);
+
+    expect(nextExpiry(view)).toBe(1000 + INSERT_HIGHLIGHT_MS);
+    expect(pruneMarks(view.marks, 1000 + INSERT_HIGHLIGHT_MS).map((m) => m.kind)).toEqual([
+      'ghost',
+    ]);
+    expect(pruneMarks(view.marks, 1000 + DELETE_GHOST_MS)).toEqual([]);
+  });
+
+  it('an expired ghost is not merged into a new one', () => {
+    let content = 'abc';
+    let view = EMPTY_PLAYBACK_VIEW;
+    for (const [next, now] of [
+      [event('delete', 2, null, 'c'), 0],
+      [event('delete', 1, null, 'b'), DELETE_GHOST_MS],
+    ] as const) {
+      content = applyEvent(content, next);
+      view = advancePlaybackView(view, next, content.length, now);
+    }
+
+    expect(ghosts(view)).toEqual([{ position: 1, text: 'b' }]);
+    expect(nextExpiry(EMPTY_PLAYBACK_VIEW)).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import type { WritingEventInsert } from '@/types/events';
+import { eventEdit } from './document-buffer';
+
+/** How long inserted text stays highlighted */
+export const INSERT_HIGHLIGHT_MS = 1500;
+/** How long deleted text stays as a ghost */
+export const DELETE_GHOST_MS = 2500;
+/** Most marks kept at once (fast playback makes a lot of them) */
+const MAX_MARKS = 200;
+
+/**
+ * Playback Mark
+ *
+ * - insert: Recently inserted text, `start`..`end` in the current content
+ * - ghost: Recently deleted text, shown at `position` without being part
+ *   of the content
+ */
+export type PlaybackMark =
+  | { kind: 'insert'; id: number; start: number; end: number; createdAt: number }
+  | { kind: 'ghost'; id: number; position: number; text: string; createdAt: number };
+
+/**
+ * Playback View
+ *
+ * What playback draws on top of a frame's content.
+ */
+export interface PlaybackView {
+  /** Caret position in the current content */
+  caret: number;
+  marks: PlaybackMark[];
+}
+
+/**
+ * Playback Segment
+ *
+ * Piece of a rendered frame, in display order.
+ */
+export type PlaybackSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'insert'; id: number; text: string }
+  | { kind: 'ghost'; id: number; text: string }
+  | { kind: 'caret' };
+
+export const EMPTY_PLAYBACK_VIEW: PlaybackView = { caret: 0, marks: [] };
+
+let nextMarkId = 1;
+
+/**
+ * View after jumping to an event (seeking): just the caret
+ *
+ * @param event - Event on screen
+ * @param contentLength - Length of the content after the event
+ */
+export function startPlaybackView(event: WritingEventInsert, contentLength: number): PlaybackView {
+  return { caret: caretAfter(event, contentLength), marks: [] };
+}
+
+/**
+ * View after playing the next event
+ *
+ * Existing marks move with the edit; the edit adds a highlight for what
+ * it inserted and a ghost for what it deleted. Consecutive deletions
+ * (backspacing a word) grow a single ghost.
+ *
+ * @param view - View before the event
+ * @param event - Event just applied
+ * @param contentLength - Length of the content after the event
+ * @param now - Current time (ms), for expiry
+ */
+export function advancePlaybackView(
+  view: PlaybackView,
+  event: WritingEventInsert,
+  contentLength: number,
+  now: number
+): PlaybackView {
+  const edit = eventEdit(event);
+  const marks = pruneMarks(view.marks, now);
+  if (!edit) {
+    return { caret: Math.min(view.caret, contentLength), marks };
+  }
+
+  const insertLength = edit.text.length;
+  const previousLength = contentLength - insertLength + edit.deleteCount;
+  const position = Math.min(Math.max(edit.position, 0), previousLength);
+  const deleteEnd = Math.min(position + edit.deleteCount, previousLength);
+  const deleted = event.content_before?.slice(0, deleteEnd - position) ?? '';
+
+  const shift = (x: number) => x - (deleteEnd - position) + insertLength;
+  const next: PlaybackMark[] = [];
+  const swallowed: { position: number; text: string }[] = [];
+
+  for (const mark of marks) {
+    if (mark.kind === 'insert') {
+      // Parts before and after the edit survive; the edit gets its own mark
+      if (mark.start < position) {
+        next.push({ ...mark, end: Math.min(mark.end, position) });
+      }
+      if (mark.end > deleteEnd) {
+        const start = shift(Math.max(mark.start, deleteEnd));
+        const piece = { ...mark, start, end: shift(mark.end) };
+        next.push(mark.start < position ? { ...piece, id: nextMarkId++ } : piece);
+      }
+    } else if (mark.position < position || (mark.position === position && deleteEnd === position)) {
+      // Before the edit (a ghost stays in front of text typed at its position)
+      next.push(mark);
+    } else if (mark.position > deleteEnd) {
+      next.push({ ...mark, position: shift(mark.position) });
+    } else {
+      // Inside or touching the deleted range: merged into the new ghost
+      swallowed.push({ position: mark.position, text: mark.text });
+    }
+  }
+
+  if (deleted || swallowed.length > 0) {
+    next.push({
+      kind: 'ghost',
+      id: nextMarkId++,
+      position,
+      text: mergeGhosts(deleted, position, swallowed),
+      createdAt: now,
+    });
+  }
+
+  if (insertLength > 0) {
+    next.push({
+      kind: 'insert',
+      id: nextMarkId++,
+      start: position,
+      end: position + insertLength,
+      createdAt: now,
+    });
+  }
+
+  return {
+    caret: position + insertLength,
+    marks: next.slice(-MAX_MARKS),
+  };
+}
+
+/**
+ * Drop marks that have faded out
+ */
+export function pruneMarks(marks: PlaybackMark[], now: number): PlaybackMark[] {
+  return marks.filter((mark) => now < expiresAt(mark));
+}
+
+/**
+ * When the next mark fades out, or null if there are no marks
+ */
+export function nextExpiry(view: PlaybackView): number | null {
+  let next: number | null = null;
+  for (const mark of view.marks) {
+    const expiry = expiresAt(mark);
+    if (next === null || expiry < next) {
+      next = expiry;
+    }
+  }
+  return next;
+}
+
+/**
+ * Split content into the pieces to render
+ *
+ * @param content - Frame content
+ * @param view - Caret and marks for the frame
+ * @param showCaret - Whether to include the caret
+ */
+export function buildPlaybackSegments(
+  content: string,
+  view: PlaybackView,
+  showCaret: boolean = true
+): PlaybackSegment[] {
+  const length = content.length;
+  const inserts = view.marks
+    .filter((mark): mark is Extract<PlaybackMark, { kind: 'insert' }> => mark.kind === 'insert')
+    .map((mark) => ({ ...mark, start: clamp(mark.start, length), end: clamp(mark.end, length) }))
+    .filter((mark) => mark.start < mark.end)
+    .sort((a, b) => a.start - b.start);
+
+  // Things drawn between characters, in order: caret first, then ghosts
+  const points: { position: number; segment: PlaybackSegment }[] = [];
+  if (showCaret) {
+    points.push({ position: clamp(view.caret, length), segment: { kind: 'caret' } });
+  }
+  for (const mark of view.marks) {
+    if (mark.kind === 'ghost') {
+      points.push({
+        position: clamp(mark.position, length),
+        segment: { kind: 'ghost', id: mark.id, text: mark.text },
+      });
+    }
+  }
+  points.sort((a, b) => a.position - b.position);
+
+  const segments: PlaybackSegment[] = [];
+  let cursor = 0;
+  let insertIndex = 0;
+  let pointIndex = 0;
+
+  while (cursor < length || pointIndex < points.length) {
+    while (pointIndex < points.length && points[pointIndex].position <= cursor) {
+      segments.push(points[pointIndex++].segment);
+    }
+    if (cursor >= length) break;
+
+    // Skip highlights that an earlier one already covered
+    while (insertIndex < inserts.length && inserts[insertIndex].end <= cursor) {
+      insertIndex++;
+    }
+
+    const nextPoint = pointIndex < points.length ? points[pointIndex].position : length;
+    const insert = inserts[insertIndex];
+
+    if (insert && insert.start <= cursor) {
+      const end = Math.min(insert.end, nextPoint);
+      segments.push({ kind: 'insert', id: insert.id, text: content.slice(cursor, end) });
+      cursor = end;
+    } else {
+      const end = Math.min(insert ? insert.start : length, nextPoint);
+      segments.push({ kind: 'text', text: content.slice(cursor, end) });
+      cursor = end;
+    }
+  }
+
+  return segments;
+}
+
+function caretAfter(event: WritingEventInsert, contentLength: number): number {
+  const edit = eventEdit(event);
+  if (!edit) return contentLength;
+  return clamp(edit.position + edit.text.length, contentLength);
+}
+
+/**
+ * Text of a ghost that absorbed older ghosts inside its deleted range
+ */
+function mergeGhosts(
+  deleted: string,
+  position: number,
+  swallowed: { position: number; text: string }[]
+): string {
+  let text = '';
+  let consumed = 0;
+  for (const ghost of swallowed.sort((a, b) => a.position - b.position)) {
+    const offset = ghost.position - position;
+    text += deleted.slice(consumed, offset) + ghost.text;
+    consumed = Math.max(consumed, offset);
+  }
+  return text + deleted.slice(consumed);
+}
+
+function expiresAt(mark: PlaybackMark): number {
+  return mark.createdAt + (mark.kind === 'insert' ? INSERT_HIGHLIGHT_MS : DELETE_GHOST_MS);
+}
+
+function clamp(position: number, length: number): number {
+  return Math.max(0, Math.min(position, length));
+}
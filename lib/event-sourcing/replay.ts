@@ -1,4 +1,6 @@
-import type { WritingEvent } from '@/types/events';
+import type { Checkpoint, WritingEvent } from '@/types/events';
+import { DocumentBuffer } from './document-buffer';
+import { condensedTiming, type TimingStrategy } from './timing';
 
 /**
  * Replay Frame
@@ -33,19 +35,21 @@ export interface ReplayFrame {
  * }
  * ```
  *
- * @param events - Sorted array of events (by timestamp ASC)
+ * @param events - Events in replay order (see EventSourcingEngine.compareEvents)
  * @param speed - Playback speed multiplier (0.5x, 1x, 2x, 4x)
+ * @param timing - Delays between events (condensed by default)
  * @returns Async generator yielding replay frames
  */
 export async function* replayEvents(
   events: WritingEvent[],
-  speed: number = 1
+  speed: number = 1,
+  timing: TimingStrategy = condensedTiming
 ): AsyncGenerator<ReplayFrame> {
   if (events.length === 0) {
     return;
   }
 
-  let content = '';
+  const buffer = new DocumentBuffer();
   const totalEvents = events.length;
 
   for (let i = 0; i < events.length; i++) {
@@ -53,14 +57,14 @@ export async function* replayEvents(
     const nextEvent = events[i + 1];
 
     // Apply event to content
-    content = applyEvent(content, event);
+    const content = buffer.apply(event).toString();
 
     // Calculate delay until next event
     let delayMs = 0;
     if (nextEvent) {
       const rawDelay = nextEvent.timestamp - event.timestamp;
-      // Apply condensed timing strategy and speed multiplier
-      delayMs = calculateCondensedDelay(rawDelay) / speed;
+      // Apply timing strategy and speed multiplier
+      delayMs = timing.delay(rawDelay) / speed;
     }
 
     // Yield frame
@@ -75,85 +79,21 @@ export async function* replayEvents(
   }
 }
 
-/**
- * Apply a single event to content
- *
- * @param content - Current content
- * @param event - Event to apply
- * @returns New content after applying event
- */
-function applyEvent(content: string, event: WritingEvent): string {
-  const { event_type, position, content: newContent, content_before } = event;
-
-  switch (event_type) {
-    case 'insert': {
-      if (!newContent) return content;
-      const before = content.slice(0, position);
-      const after = content.slice(position);
-      return before + newContent + after;
-    }
-
-    case 'delete': {
-      if (!content_before) return content;
-      const deleteLength = content_before.length;
-      const before = content.slice(0, position);
-      const after = content.slice(position + deleteLength);
-      return before + after;
-    }
-
-    case 'replace': {
-      if (!content_before || !newContent) return content;
-      const replaceLength = content_before.length;
-      const before = content.slice(0, position);
-      const after = content.slice(position + replaceLength);
-      return before + newContent + after;
-    }
-
-    default:
-      return content;
-  }
-}
-
-/**
- * Calculate condensed delay for playback
- *
- * Strategy (from research.md):
- * - Delays < 2s: Keep as-is
- * - Delays 2s-10s: Compress to 50%
- * - Delays > 10s: Compress to 2-3s
- *
- * This makes playback more watchable by compressing long pauses.
- *
- * @param rawDelayMs - Raw delay between events in milliseconds
- * @returns Condensed delay in milliseconds
- */
-function calculateCondensedDelay(rawDelayMs: number): number {
-  const seconds = rawDelayMs / 1000;
-
-  if (seconds < 2) {
-    // Short delays: keep as-is
-    return rawDelayMs;
-  } else if (seconds <= 10) {
-    // Medium delays: compress to 50%
-    return rawDelayMs * 0.5;
-  } else {
-    // Long delays: compress to 2-3 seconds
-    // Use logarithmic scale for very long delays
-    const compressed = 2000 + Math.min(1000, Math.log10(seconds) * 300);
-    return compressed;
-  }
-}
-
 /**
  * Get total playback duration
  *
- * Calculates how long playback will take with condensed timing.
+ * Calculates how long playback will take with a timing strategy.
  *
  * @param events - Array of events
  * @param speed - Playback speed multiplier
+ * @param timing - Delays between events (condensed by default)
  * @returns Total duration in milliseconds
  */
-export function getTotalDuration(events: WritingEvent[], speed: number = 1): number {
+export function getTotalDuration(
+  events: WritingEvent[],
+  speed: number = 1,
+  timing: TimingStrategy = condensedTiming
+): number {
   if (events.length === 0) return 0;
 
   let totalMs = 0;
@@ -162,7 +102,7 @@ export function getTotalDuration(events: WritingEvent[], speed: number = 1): num
     const event = events[i];
     const nextEvent = events[i + 1];
     const rawDelay = nextEvent.timestamp - event.timestamp;
-    totalMs += calculateCondensedDelay(rawDelay);
+    totalMs += timing.delay(rawDelay);
   }
 
   return totalMs / speed;
@@ -218,18 +158,21 @@ export function findEventAtTimestamp(
 /**
  * Find event index at specific playback time
  *
- * Converts playback time (with condensed delays) to event index.
- * Used for seeking/scrubbing in timeline.
+ * Converts playback time (with a timing strategy's delays) to event index.
+ * Walks the whole history; when seeking repeatedly through the same
+ * events, build a `PlaybackIndex` once instead.
  *
  * @param events - Array of events
  * @param targetPlaybackTimeMs - Target playback time in milliseconds
  * @param speed - Playback speed multiplier
+ * @param timing - Delays between events (condensed by default)
  * @returns Event index (0-based)
  */
 export function findEventIndexAtPlaybackTime(
   events: WritingEvent[],
   targetPlaybackTimeMs: number,
-  speed: number = 1
+  speed: number = 1,
+  timing: TimingStrategy = condensedTiming
 ): number {
   if (events.length === 0) return 0;
   if (targetPlaybackTimeMs <= 0) return 0;
@@ -240,14 +183,14 @@ export function findEventIndexAtPlaybackTime(
     const event = events[i];
     const nextEvent = events[i + 1];
     const rawDelay = nextEvent.timestamp - event.timestamp;
-    const condensedDelay = calculateCondensedDelay(rawDelay) / speed;
+    const delayMs = timing.delay(rawDelay) / speed;
 
     // Check if target time falls within this event's duration
-    if (accumulatedTimeMs + condensedDelay >= targetPlaybackTimeMs) {
+    if (accumulatedTimeMs + delayMs >= targetPlaybackTimeMs) {
       return i;
     }
 
-    accumulatedTimeMs += condensedDelay;
+    accumulatedTimeMs += delayMs;
   }
 
   // Target is beyond all events, return last event
@@ -258,25 +201,60 @@ export function findEventIndexAtPlaybackTime(
  * Build content state up to a specific event index
  *
  * Applies all events from start to the specified index to reconstruct content state.
+ * When checkpoints are given, starts from the newest one at or before the
+ * index and only replays the events after it.
  *
- * @param events - Array of events
+ * @param events - Array of events (full history)
  * @param toIndex - Event index to build up to (inclusive)
+ * @param checkpoints - Optional checkpoints for the same document
  * @returns Content state at that index
  */
 export function buildContentUpToIndex(
   events: WritingEvent[],
-  toIndex: number
+  toIndex: number,
+  checkpoints: Checkpoint[] = []
 ): string {
   if (events.length === 0 || toIndex < 0) return '';
 
-  let content = '';
   const endIndex = Math.min(toIndex, events.length - 1);
+  const checkpoint = findCheckpointForIndex(checkpoints, endIndex);
+
+  const buffer = new DocumentBuffer(checkpoint?.full_content ?? '');
+  const startIndex = checkpoint?.event_count ?? 0;
+
+  for (let i = startIndex; i <= endIndex; i++) {
+    buffer.apply(events[i]);
+  }
+
+  return buffer.toString();
+}
 
-  for (let i = 0; i <= endIndex; i++) {
-    content = applyEvent(content, events[i]);
+/**
+ * Find the newest checkpoint usable for an event index
+ *
+ * A checkpoint with `event_count` N holds the content after events
+ * 0..N-1, so it can seed any index >= N - 1.
+ *
+ * @param checkpoints - Checkpoints in any order
+ * @param eventIndex - Target event index (inclusive)
+ * @returns Best checkpoint or null if none applies
+ */
+export function findCheckpointForIndex(
+  checkpoints: Checkpoint[],
+  eventIndex: number
+): Checkpoint | null {
+  let best: Checkpoint | null = null;
+
+  for (const checkpoint of checkpoints) {
+    if (
+      checkpoint.event_count <= eventIndex + 1 &&
+      (!best || checkpoint.event_count > best.event_count)
+    ) {
+      best = checkpoint;
+    }
   }
 
-  return content;
+  return best;
 }
 
 /**
@@ -288,19 +266,21 @@ export function buildContentUpToIndex(
  * @param startIndex - Event index to start from
  * @param initialContent - Content state at startIndex
  * @param speed - Playback speed multiplier
+ * @param timing - Delays between events (condensed by default)
  * @returns Async generator yielding replay frames
  */
 export async function* replayEventsFromIndex(
   events: WritingEvent[],
   startIndex: number,
   initialContent: string,
-  speed: number = 1
+  speed: number = 1,
+  timing: TimingStrategy = condensedTiming
 ): AsyncGenerator<ReplayFrame> {
   if (events.length === 0 || startIndex >= events.length) {
     return;
   }
 
-  let content = initialContent;
+  const buffer = new DocumentBuffer(initialContent);
   const totalEvents = events.length;
 
   for (let i = startIndex; i < events.length; i++) {
@@ -308,13 +288,13 @@ export async function* replayEventsFromIndex(
     const nextEvent = events[i + 1];
 
     // Apply event to content
-    content = applyEvent(content, event);
+    const content = buffer.apply(event).toString();
 
     // Calculate delay until next event
     let delayMs = 0;
     if (nextEvent) {
       const rawDelay = nextEvent.timestamp - event.timestamp;
-      delayMs = calculateCondensedDelay(rawDelay) / speed;
+      delayMs = timing.delay(rawDelay) / speed;
     }
 
     // Yield frame
@@ -0,0 +1,74 @@
+import type { WritingEvent } from '@/types/events';
+import { captureChange } from './capture';
+import { EventSourcingEngine } from './engine';
+
+/**
+ * Restore Plan
+ */
+export interface RestorePlan {
+  /** Content right after the chosen event */
+  content: string;
+  /** Compensating events, marked with `restored_to` (empty if nothing changed since) */
+  events: WritingEvent[];
+}
+
+/**
+ * Work out the events that bring a document back to an earlier point
+ *
+ * The content at the point is the history up to and including the event
+ * with `seq`, so it is always a state the document really was in. The
+ * compensating events are the edit from the current content to it,
+ * recorded like any other change (`captureChange`).
+ *
+ * @param history - Full stored history in seq order
+ * @param seq - Last event to keep (0 restores the blank page)
+ * @param base - Session and time to record the restore under
+ * @returns Content at the point and the events to append
+ */
+export function planRestore(
+  history: WritingEvent[],
+  seq: number,
+  base: { session_id: string; timestamp: number }
+): RestorePlan {
+  const current = EventSourcingEngine.replay(history).content;
+  const split = history.findIndex((event) => (event.seq ?? 0) > seq);
+  const content = EventSourcingEngine.applyEvents(
+    '',
+    split === -1 ? history : history.slice(0, split)
+  );
+  const documentId = history[0]?.document_id ?? '';
+
+  const events = captureChange(current, content, { document_id: documentId, ...base }).map(
+    (event) => ({ ...event, id: crypto.randomUUID(), restored_to: seq })
+  );
+
+  return { content, events };
+}
+
+/**
+ * Restore a document to an earlier event through the API
+ *
+ * @param documentId - Document ID
+ * @param seq - Seq of the last event to keep
+ * @param baseSeq - Latest seq the caller has seen; the restore is refused
+ *   if the document changed since
+ * @returns Restore summary from the server
+ */
+export async function requestRestore(
+  documentId: string,
+  seq: number,
+  baseSeq: number
+): Promise<{ inserted_count: number; head_seq: number }> {
+  const response = await fetch(`/api/documents/${documentId}/restore`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ seq, base_seq: baseSeq }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to restore: ${response.statusText}`);
+  }
+
+  return data;
+}
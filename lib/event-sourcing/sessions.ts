@@ -0,0 +1,117 @@
+import type { WritingEvent } from '@/types/events';
+import { LONG_PAUSE_MS } from './navigation';
+
+/**
+ * Session Run
+ *
+ * Consecutive events (in replay order) from one writing session.
+ *
+ * A session usually forms a single run. When another device's events
+ * interleave with it, it is split into several runs that share a
+ * `number`.
+ */
+export interface SessionRun {
+  /** `session_id` of the events */
+  id: string;
+  /** 1-based, in order of first appearance (the highest is `EventStats.session_count`) */
+  number: number;
+  /** First event index (inclusive) */
+  startIndex: number;
+  /** Last event index (inclusive) */
+  endIndex: number;
+  /** Timestamp of the first event */
+  startedAt: number;
+  /** Timestamp of the last event */
+  endedAt: number;
+}
+
+/**
+ * Idle Gap
+ *
+ * A long pause between two consecutive events.
+ */
+export interface IdleGap {
+  /** Index of the event before the gap */
+  afterIndex: number;
+  /** Wall-clock length of the gap */
+  durationMs: number;
+}
+
+/**
+ * Group events into session runs
+ *
+ * @param events - Events in replay order
+ * @returns Runs in replay order
+ */
+export function groupSessions(events: WritingEvent[]): SessionRun[] {
+  const runs: SessionRun[] = [];
+  const numbers = new Map<string, number>();
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    const current = runs[runs.length - 1];
+
+    if (current && current.id === event.session_id) {
+      current.endIndex = i;
+      current.endedAt = event.timestamp;
+      continue;
+    }
+
+    let number = numbers.get(event.session_id);
+    if (number === undefined) {
+      number = numbers.size + 1;
+      numbers.set(event.session_id, number);
+    }
+
+    runs.push({
+      id: event.session_id,
+      number,
+      startIndex: i,
+      endIndex: i,
+      startedAt: event.timestamp,
+      endedAt: event.timestamp,
+    });
+  }
+
+  return runs;
+}
+
+/**
+ * Event range covered by a session (from its first run to its last)
+ *
+ * @param runs - Runs from `groupSessions`
+ * @param number - Session number
+ * @returns Inclusive index range, or null if there is no such session
+ */
+export function sessionRange(
+  runs: SessionRun[],
+  number: number
+): { startIndex: number; endIndex: number } | null {
+  const own = runs.filter((run) => run.number === number);
+  if (own.length === 0) return null;
+
+  return { startIndex: own[0].startIndex, endIndex: own[own.length - 1].endIndex };
+}
+
+/**
+ * Find idle gaps (within and between sessions)
+ *
+ * @param events - Events in replay order
+ * @param minGapMs - Shortest gap that counts as idle
+ * @returns Gaps in replay order
+ */
+export function findIdleGaps(
+  events: WritingEvent[],
+  minGapMs: number = LONG_PAUSE_MS
+): IdleGap[] {
+  const gaps: IdleGap[] = [];
+
+  for (let i = 0; i < events.length - 1; i++) {
+    const durationMs = events[i + 1].timestamp - events[i].timestamp;
+    if (durationMs >= minGapMs) {
+      gaps.push({ afterIndex: i, durationMs });
+    }
+  }
+
+  return gaps;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  condensedTiming,
+  createTimingStrategy,
+  fixedDurationTiming,
+  realTimeTiming,
+  type TimingStrategy,
+} from './timing';
+
+/** Events with these gaps between them (ms) */
+function history(gaps: number[]): { timestamp: number }[] {
+  const events = [{ timestamp: 1_000 }];
+  for (const gap of gaps) {
+    events.push({ timestamp: events[events.length - 1].timestamp + gap });
+  }
+  return events;
+}
+
+/** Total playback time of a history under a strategy (1x) */
+function total(events: { timestamp: number }[], timing: TimingStrategy): number {
+  let sum = 0;
+  for (let i = 1; i < events.length; i++) {
+    sum += timing.delay(events[i].timestamp - events[i - 1].timestamp);
+  }
+  return sum;
+}
+
+const events = history([120, 90, 3_000, 150, 45_000, 200, 6_000]);
+
+describe('createTimingStrategy', () => {
+  it('plays real time gaps as written, never negative', () => {
+    const timing = createTimingStrategy(events, { mode: 'realtime' });
+
+    expect(timing.delay(3_000)).toBe(3_000);
+    expect(timing.delay(-500)).toBe(0);
+  });
+
+  it('condenses long pauses', () => {
+    const timing = createTimingStrategy(events, { mode: 'condensed' });
+
+    expect(timing.delay(1_500)).toBe(1_500);
+    expect(timing.delay(6_000)).toBe(3_000);
+    expect(timing.delay(45_000)).toBeGreaterThanOrEqual(2_000);
+    expect(timing.delay(45_000)).toBeLessThanOrEqual(3_000);
+    expect(timing.delay(-500)).toBe(0);
+  });
+
+  it('defaults to condensed timing', () => {
+    expect(createTimingStrategy(events)).toBe(condensedTiming);
+  });
+
+  it('waits the same after every event in uniform mode', () => {
+    const timing = createTimingStrategy(events, { mode: 'uniform' });
+
+    expect(timing.delay(10)).toBe(timing.delay(60_000));
+    expect(timing.delay(-500)).toBe(timing.delay(10));
+  });
+
+  it('cuts only idle periods in skip-idle mode', () => {
+    const timing = createTimingStrategy(events, { mode: 'skip-idle' });
+
+    expect(timing.delay(3_000)).toBe(3_000);
+    expect(timing.delay(45_000)).toBeLessThan(3_000);
+  });
+});
+
+describe('fixed-duration timing', () => {
+  it('scales the whole history to the chosen duration', () => {
+    const timing = createTimingStrategy(events, { mode: 'fixed-duration', durationMs: 30_000 });
+
+    expect(total(events, timing)).toBeCloseTo(30_000, 6);
+  });
+
+  it('fits a minute by default', () => {
+    const timing = createTimingStrategy(events, { mode: 'fixed-duration' });
+
+    expect(total(events, timing)).toBeCloseTo(60_000, 6);
+  });
+
+  it('keeps the rhythm of the strategy it scales', () => {
+    const timing = fixedDurationTiming(events, 10_000, realTimeTiming);
+    const scale = 10_000 / total(events, realTimeTiming);
+
+    expect(timing.delay(3_000)).toBeCloseTo(3_000 * scale, 6);
+    expect(timing.delay(3_000) / timing.delay(150)).toBeCloseTo(20, 6);
+  });
+
+  it('spreads a history without gaps evenly', () => {
+    const burst = history([0, 0, 0, 0]);
+    const timing = fixedDurationTiming(burst, 8_000);
+
+    expect(timing.delay(0)).toBe(2_000);
+    expect(total(burst, timing)).toBe(8_000);
+  });
+
+  it('has nothing to scale for a single event', () => {
+    const timing = fixedDurationTiming(history([]), 8_000);
+
+    expect(timing.delay(1_000)).toBe(0);
+  });
+});
@@ -0,0 +1,184 @@
+import type { WritingEvent } from '@/types/events';
+
+/**
+ * Timing Strategy
+ *
+ * Decides how long playback waits between two consecutive events, at 1x
+ * speed. Playback, durations and seeking all read delays from the same
+ * strategy, so they always agree.
+ */
+export interface TimingStrategy {
+  /**
+   * Playback delay for a gap between two events
+   *
+   * @param rawDelayMs - Time between the events as written (can be
+   * negative: events are ordered by seq, and an event synced late from
+   * another device can carry an earlier timestamp)
+   * @returns Delay in milliseconds (never negative)
+   */
+  delay(rawDelayMs: number): number;
+}
+
+/**
+ * Timing Mode
+ *
+ * - realtime: Gaps exactly as written
+ * - condensed: Short gaps as written, long pauses compressed
+ * - uniform: Same delay after every event
+ * - skip-idle: Gaps as written, idle periods cut to a short pause
+ * - fixed-duration: Condensed, scaled to fit a total duration
+ */
+export type TimingMode = 'realtime' | 'condensed' | 'uniform' | 'skip-idle' | 'fixed-duration';
+
+/**
+ * Timing Options
+ *
+ * What readers pick in the player.
+ */
+export interface TimingOptions {
+  mode: TimingMode;
+  /** Total duration for 'fixed-duration' (default 60s) */
+  durationMs?: number;
+}
+
+export const TIMING_MODES: { value: TimingMode; label: string }[] = [
+  { value: 'condensed', label: 'Condensed' },
+  { value: 'realtime', label: 'Real time' },
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'skip-idle', label: 'Skip idle' },
+  { value: 'fixed-duration', label: 'Fixed duration' },
+];
+
+export const DEFAULT_TIMING: TimingOptions = { mode: 'condensed' };
+
+/** Delay per event in uniform mode */
+const UNIFORM_DELAY_MS = 50;
+/** Gaps longer than this count as idle in skip-idle mode */
+const IDLE_THRESHOLD_MS = 5000;
+/** What an idle period shrinks to in skip-idle mode */
+const IDLE_PAUSE_MS = 500;
+const DEFAULT_FIXED_DURATION_MS = 60_000;
+
+/**
+ * Real-time timing: gaps exactly as written
+ */
+export const realTimeTiming: TimingStrategy = {
+  delay: (rawDelayMs) => Math.max(0, rawDelayMs),
+};
+
+/**
+ * Condensed timing
+ *
+ * Strategy (from research.md):
+ * - Delays < 2s: Keep as-is
+ * - Delays 2s-10s: Compress to 50%
+ * - Delays > 10s: Compress to 2-3s
+ *
+ * This makes playback more watchable by compressing long pauses.
+ */
+export const condensedTiming: TimingStrategy = {
+  delay(rawDelayMs) {
+    if (rawDelayMs <= 0) {
+      return 0;
+    }
+
+    const seconds = rawDelayMs / 1000;
+
+    if (seconds < 2) {
+      // Short delays: keep as-is
+      return rawDelayMs;
+    } else if (seconds <= 10) {
+      // Medium delays: compress to 50%
+      return rawDelayMs * 0.5;
+    } else {
+      // Long delays: compress to 2-3 seconds
+      // Use logarithmic scale for very long delays
+      return 2000 + Math.min(1000, Math.log10(seconds) * 300);
+    }
+  },
+};
+
+/**
+ * Uniform timing: the same delay after every event
+ *
+ * @param perEventMs - Delay after each event
+ */
+export function uniformTiming(perEventMs: number = UNIFORM_DELAY_MS): TimingStrategy {
+  return { delay: () => perEventMs };
+}
+
+/**
+ * Skip-idle timing: gaps as written, except idle periods
+ *
+ * @param idleThresholdMs - Gaps longer than this count as idle
+ * @param idlePauseMs - What an idle period shrinks to
+ */
+export function skipIdleTiming(
+  idleThresholdMs: number = IDLE_THRESHOLD_MS,
+  idlePauseMs: number = IDLE_PAUSE_MS
+): TimingStrategy {
+  return {
+    delay(rawDelayMs) {
+      if (rawDelayMs <= 0) return 0;
+      return rawDelayMs > idleThresholdMs ? idlePauseMs : rawDelayMs;
+    },
+  };
+}
+
+/**
+ * Fixed-duration timing: another strategy scaled to a total duration
+ *
+ * Keeps the rhythm of `base` ("play this in 60 seconds"). A history
+ * without any gaps under `base` is spread evenly instead.
+ *
+ * @param events - History the duration applies to
+ * @param totalMs - Total playback duration at 1x
+ * @param base - Strategy whose delays are scaled
+ */
+export function fixedDurationTiming(
+  events: Pick<WritingEvent, 'timestamp'>[],
+  totalMs: number,
+  base: TimingStrategy = condensedTiming
+): TimingStrategy {
+  const gaps = events.length - 1;
+  if (gaps <= 0) {
+    return { delay: () => 0 };
+  }
+
+  let baseTotalMs = 0;
+  for (let i = 1; i < events.length; i++) {
+    baseTotalMs += base.delay(events[i].timestamp - events[i - 1].timestamp);
+  }
+
+  if (baseTotalMs === 0) {
+    return uniformTiming(totalMs / gaps);
+  }
+
+  const scale = totalMs / baseTotalMs;
+  return { delay: (rawDelayMs) => base.delay(rawDelayMs) * scale };
+}
+
+/**
+ * Build the strategy for a timing choice
+ *
+ * @param events - History being played (fixed-duration measures it)
+ * @param options - Chosen timing
+ * @returns Timing strategy
+ */
+export function createTimingStrategy(
+  events: Pick<WritingEvent, 'timestamp'>[],
+  options: TimingOptions = DEFAULT_TIMING
+): TimingStrategy {
+  switch (options.mode) {
+    case 'realtime':
+      return realTimeTiming;
+    case 'condensed':
+      return condensedTiming;
+    case 'uniform':
+      return uniformTiming();
+    case 'skip-idle':
+      return skipIdleTiming();
+    case 'fixed-duration':
+      return fixedDurationTiming(events, options.durationMs ?? DEFAULT_FIXED_DURATION_MS);
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { WritingEvent } from '@/types/events';
+import { EventSourcingEngine } from './engine';
+import { rebaseEvents, transformPosition } from './transform';
+
+let nextId = 1;
+
+function event(
+  event_type: WritingEvent['event_type'],
+  position: number,
+  content: string | null,
+  content_before: string | null = null
+): WritingEvent {
+  return {
+    id: `event-${nextId++}`,
+    document_id: 'doc',
+    session_id: 'session',
+    timestamp: 0,
+    event_type,
+    position,
+    content,
+    content_before,
+  };
+}
+
+/** Small deterministic PRNG, so failures can be reproduced */
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+/**
+ * Random edits recorded one after the other on top of `base`
+ */
+function randomEdits(base: string, count: number, next: () => number): WritingEvent[] {
+  const events: WritingEvent[] = [];
+  let content = base;
+
+  for (let i = 0; i < count; i++) {
+    const position = Math.floor(next() * (content.length + 1));
+    const length = Math.min(content.length - position, 1 + Math.floor(next() * 4));
+    const text = 'xyz'.slice(0, 1 + Math.floor(next() * 3));
+    const kind = next();
+
+    const edit =
+      kind < 0.4 || length === 0
+        ? event('insert', position, text)
+        : kind < 0.7
+          ? event('delete', position, null, content.slice(position, position + length))
+          : event('replace', position, text, content.slice(position, position + length));
+
+    events.push(edit);
+    content = EventSourcingEngine.applyEvents(content, [edit]);
+  }
+
+  return events;
+}
+
+describe('rebaseEvents', () => {
+  it('converges whichever side is applied first', () => {
+    const next = random(42);
+
+    for (let round = 0; round < 300; round++) {
+      const base = 'The quick brown fox jumps over the lazy dog';
+      const events = randomEdits(base, 1 + Math.floor(next() * 5), next);
+      const concurrent = randomEdits(base, 1 + Math.floor(next() * 5), next);
+
+      const rebased = rebaseEvents(events, concurrent);
+
+      const concurrentFirst = EventSourcingEngine.applyEvents(
+        EventSourcingEngine.applyEvents(base, concurrent),
+        rebased.events
+      );
+      const eventsFirst = EventSourcingEngine.applyEvents(
+        EventSourcingEngine.applyEvents(base, events),
+        rebased.concurrent
+      );
+
+      expect(concurrentFirst).toBe(eventsFirst);
+    }
+  });
+
+  it('puts concurrent text first when both insert at the same position', () => {
+    const base = 'ab';
+    const rebased = rebaseEvents([event('insert', 1, 'L')], [event('insert', 1, 'R')]);
+
+    const content = EventSourcingEngine.applyEvents(
+      EventSourcingEngine.applyEvents(base, [event('insert', 1, 'R')]),
+      rebased.events
+    );
+
+    expect(content).toBe('aRLb');
+  });
+
+  it('splits an event whose range was partly replaced, keeping its ID on the first part', () => {
+    const base = 'abcdef';
+    const own = event('delete', 1, null, 'bcde');
+    const rebased = rebaseEvents([own], [event('insert', 3, 'X')]);
+
+    expect(rebased.events).toHaveLength(2);
+    expect(rebased.events[0].id).toBe(own.id);
+    expect(rebased.events[1].id).not.toBe(own.id);
+    expect(
+      EventSourcingEngine.applyEvents(
+        EventSourcingEngine.applyEvents(base, [event('insert', 3, 'X')]),
+        rebased.events
+      )
+    ).toBe('aXf');
+  });
+
+  it('returns both sides unchanged when either is empty', () => {
+    const events = [event('insert', 0, 'a')];
+
+    expect(rebaseEvents(events, []).events).toBe(events);
+    expect(rebaseEvents([], events).concurrent).toBe(events);
+  });
+});
+
+describe('transformPosition', () => {
+  it('keeps a caret in front of text inserted at it', () => {
+    expect(transformPosition(3, event('insert', 3, 'abc'))).toBe(3);
+  });
+
+  it('moves a caret after an edit by the change in length', () => {
+    expect(transformPosition(10, event('replace', 2, 'x', 'abcd'))).toBe(7);
+  });
+
+  it('moves a caret inside deleted text to the deletion point', () => {
+    expect(transformPosition(4, event('delete', 2, null, 'abcd'))).toBe(2);
+  });
+});
@@ -0,0 +1,217 @@
+import type { WritingEvent } from '@/types/events';
+
+/**
+ * Operational Transform for Writing Events
+ *
+ * Two devices that edit the same document offline both record events
+ * against the state they last saw. Once one device's events are stored,
+ * the other device's positions no longer line up with the history.
+ * These helpers rebase one sequence of events over another so that both
+ * orders of application converge on the same content.
+ *
+ * Every event is treated as "delete `content_before` at `position`, then
+ * insert `content` there", which covers insert, delete and replace.
+ */
+
+/**
+ * Rebase Result
+ */
+export interface RebaseResult<T extends WritingEvent> {
+  /** Events rebased to apply after `concurrent` */
+  events: T[];
+  /** Concurrent events rebased to apply after `events` */
+  concurrent: WritingEvent[];
+}
+
+interface Edit<T extends WritingEvent = WritingEvent> {
+  event: T;
+  position: number;
+  deleted: string;
+  inserted: string;
+}
+
+function toEdit<T extends WritingEvent>(event: T): Edit<T> {
+  return {
+    event,
+    position: event.position,
+    deleted: event.event_type === 'insert' ? '' : event.content_before ?? '',
+    inserted: event.event_type === 'delete' ? '' : event.content ?? '',
+  };
+}
+
+function toEvent<T extends WritingEvent>(edit: Edit<T>, index: number): T {
+  const { event, position, deleted, inserted } = edit;
+
+  return {
+    ...event,
+    // An event split in two keeps its ID on the first part only
+    id: index === 0 ? event.id : crypto.randomUUID(),
+    event_type: deleted && inserted ? 'replace' : inserted ? 'insert' : 'delete',
+    position,
+    content: inserted || null,
+    content_before: deleted || null,
+  };
+}
+
+function edit<T extends WritingEvent>(
+  base: Edit<T>,
+  position: number,
+  deleted: string,
+  inserted: string
+): Edit<T>[] {
+  return deleted || inserted ? [{ event: base.event, position, deleted, inserted }] : [];
+}
+
+/**
+ * Rebase `a` to apply after `b` (both recorded against the same content)
+ *
+ * @param aFirst - When both insert at the same position, whose text comes first
+ * @returns Zero, one or two edits equivalent to `a` after `b`
+ */
+function transformEdit<T extends WritingEvent>(
+  a: Edit<T>,
+  b: Edit,
+  aFirst: boolean
+): Edit<T>[] {
+  const aEnd = a.position + a.deleted.length;
+  const bEnd = b.position + b.deleted.length;
+  const shift = b.inserted.length - b.deleted.length;
+
+  // Two inserts at the same spot: tie-break
+  if (!a.deleted && !b.deleted && a.position === b.position) {
+    return aFirst ? [a] : [{ ...a, position: a.position + shift }];
+  }
+
+  // Entirely before b
+  if (aEnd <= b.position) {
+    return [a];
+  }
+
+  // Entirely after b
+  if (a.position >= bEnd) {
+    return [{ ...a, position: a.position + shift }];
+  }
+
+  // Overlap: only delete what b left behind, around b's inserted text
+  const left = a.position < b.position ? a.deleted.slice(0, b.position - a.position) : '';
+  const right = aEnd > bEnd ? a.deleted.slice(bEnd - a.position) : '';
+
+  if (a.position < b.position) {
+    return [
+      ...edit(a, a.position, left, a.inserted),
+      ...edit(a, a.position + a.inserted.length + b.inserted.length, right, ''),
+    ];
+  }
+
+  // Same start: tie-break which inserted text comes first
+  if (a.position === b.position && aFirst) {
+    return [
+      ...edit(a, b.position, '', a.inserted),
+      ...edit(a, b.position + a.inserted.length + b.inserted.length, right, ''),
+    ];
+  }
+
+  return edit(a, b.position + b.inserted.length, right, a.inserted);
+}
+
+/**
+ * Rebase two edit sequences recorded against the same content over each other
+ */
+function transformEdits<T extends WritingEvent>(
+  xs: Edit<T>[],
+  ys: Edit[],
+  xFirst: boolean
+): [Edit<T>[], Edit[]] {
+  if (xs.length === 1 && ys.length === 1) {
+    return [transformEdit(xs[0], ys[0], xFirst), transformEdit(ys[0], xs[0], !xFirst)];
+  }
+
+  const xsOut: Edit<T>[] = [];
+  let remaining = ys;
+
+  for (const x of xs) {
+    let parts: Edit<T>[] = [x];
+    const ysOut: Edit[] = [];
+
+    for (const y of remaining) {
+      const [nextParts, nextY] = transformEdits(parts, [y], xFirst);
+      parts = nextParts;
+      ysOut.push(...nextY);
+    }
+
+    xsOut.push(...parts);
+    remaining = ysOut;
+  }
+
+  return [xsOut, remaining];
+}
+
+/**
+ * Rebase events over concurrent events
+ *
+ * Both sequences must have been recorded against the same content.
+ * Concurrent events win ties (their text comes first), so the server's
+ * history stays put and only the late arrival moves.
+ *
+ * Guarantees: applying `concurrent` then the returned `events` gives the
+ * same content as applying `events` then the returned `concurrent`.
+ *
+ * @param events - Events to rebase, in order
+ * @param concurrent - Events already applied elsewhere, in order
+ * @returns Both sequences rebased over each other
+ */
+export function rebaseEvents<T extends WritingEvent>(
+  events: T[],
+  concurrent: WritingEvent[]
+): RebaseResult<T> {
+  if (events.length === 0 || concurrent.length === 0) {
+    return { events, concurrent };
+  }
+
+  const [rebased, rebasedConcurrent] = transformEdits(
+    events.map(toEdit),
+    concurrent.map(toEdit),
+    false
+  );
+
+  return {
+    events: splitToEvents(rebased),
+    concurrent: splitToEvents(rebasedConcurrent),
+  };
+}
+
+/**
+ * Turn edits back into events, numbering parts of split events
+ */
+function splitToEvents<T extends WritingEvent>(edits: Edit<T>[]): T[] {
+  const parts = new Map<string, number>();
+
+  return edits.map((item) => {
+    const index = parts.get(item.event.id) ?? 0;
+    parts.set(item.event.id, index + 1);
+    return toEvent(item, index);
+  });
+}
+
+/**
+ * Map a caret position through an event
+ *
+ * A caret inside deleted text moves to where the deletion happened; a
+ * caret exactly at an insertion point stays in front of the new text.
+ *
+ * @param position - Caret position before the event
+ * @param event - Event applied to the content
+ * @returns Caret position after the event
+ */
+export function transformPosition(position: number, event: WritingEvent): number {
+  const { position: start, deleted, inserted } = toEdit(event);
+  const end = start + deleted.length;
+
+  if (position <= start) {
+    return position;
+  }
+  if (position >= end) {
+    return position + inserted.length - deleted.length;
+  }
+  return start;
+}
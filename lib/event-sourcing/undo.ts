@@ -0,0 +1,187 @@
+import type { WritingEventInsert } from '@/types/events';
+
+/**
+ * Build the event that reverses another event
+ *
+ * - insert "abc" at p  →  delete "abc" at p
+ * - delete "abc" at p  →  insert "abc" at p
+ * - replace "abc" with "xy" at p  →  replace "xy" with "abc" at p
+ *
+ * @param event - Event to reverse (must have been applied last)
+ * @param timestamp - When the reversal happens
+ * @returns Inverse event (without an ID; one is assigned when queued)
+ */
+export function invertEvent(
+  event: WritingEventInsert,
+  timestamp: number = Date.now()
+): WritingEventInsert {
+  const base = {
+    document_id: event.document_id,
+    session_id: event.session_id,
+    timestamp,
+    position: event.position,
+  };
+
+  switch (event.event_type) {
+    case 'insert':
+      return { ...base, event_type: 'delete', content: null, content_before: event.content };
+    case 'delete':
+      return { ...base, event_type: 'insert', content: event.content_before, content_before: null };
+    case 'replace':
+      return {
+        ...base,
+        event_type: 'replace',
+        content: event.content_before,
+        content_before: event.content,
+      };
+  }
+}
+
+/**
+ * Undo Group
+ *
+ * Events that are undone together, in the order they were applied.
+ */
+export interface UndoGroup {
+  events: WritingEventInsert[];
+}
+
+/**
+ * Undo History
+ *
+ * Undo/redo stacks for one editor, built on writing events. Undoing
+ * produces inverse events and redoing replays the originals, so both
+ * are recorded in the timeline like any other edit.
+ *
+ * Keystrokes are grouped into logical units:
+ * - typing runs of one word (with its trailing whitespace)
+ * - runs of Backspace or Delete presses
+ * - each paste, cut, replace or line break on its own
+ * - a pause of more than a second always starts a new unit
+ */
+export class UndoHistory {
+  /** Longest pause between keystrokes that are undone together */
+  static readonly GROUP_TIMEOUT_MS = 1000;
+
+  /** Oldest units are dropped beyond this */
+  static readonly MAX_GROUPS = 500;
+
+  private undoStack: UndoGroup[] = [];
+  private redoStack: UndoGroup[] = [];
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Record an edit made by the user
+   *
+   * Clears the redo stack: redoing past a new edit would apply events
+   * to content they were not recorded against.
+   *
+   * @param events - Events of one change, in order. A change touching
+   * several regions (e.g. find-and-replace) is always its own unit.
+   */
+  record(events: WritingEventInsert[]): void {
+    if (events.length === 0) return;
+    this.redoStack = [];
+
+    const current = this.undoStack[this.undoStack.length - 1];
+    if (events.length === 1 && current && UndoHistory.continuesGroup(current, events[0])) {
+      current.events.push(events[0]);
+      return;
+    }
+
+    this.undoStack.push({ events: [...events] });
+    if (this.undoStack.length > UndoHistory.MAX_GROUPS) {
+      this.undoStack.shift();
+    }
+  }
+
+  /**
+   * Undo the latest unit
+   *
+   * @param timestamp - When the undo happens
+   * @returns Inverse events to apply, in order (empty if nothing to undo)
+   */
+  undo(timestamp: number = Date.now()): WritingEventInsert[] {
+    const group = this.undoStack.pop();
+    if (!group) return [];
+
+    this.redoStack.push(group);
+    return [...group.events].reverse().map((event) => invertEvent(event, timestamp));
+  }
+
+  /**
+   * Redo the latest undone unit
+   *
+   * @param timestamp - When the redo happens
+   * @returns Events to apply, in order (empty if nothing to redo)
+   */
+  redo(timestamp: number = Date.now()): WritingEventInsert[] {
+    const group = this.redoStack.pop();
+    if (!group) return [];
+
+    this.undoStack.push(group);
+    return group.events.map((event) => ({ ...event, id: undefined, timestamp }));
+  }
+
+  /**
+   * Forget everything
+   *
+   * Needed when the content changes underneath the history (e.g. edits
+   * merged in from another device), since positions no longer match.
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Whether an event extends the current unit
+   */
+  private static continuesGroup(group: UndoGroup, event: WritingEventInsert): boolean {
+    const last = group.events[group.events.length - 1];
+
+    if (event.timestamp - last.timestamp > this.GROUP_TIMEOUT_MS) {
+      return false;
+    }
+
+    // Typing: each insert continues right after the previous one
+    if (event.event_type === 'insert' && last.event_type === 'insert') {
+      const lastText = last.content ?? '';
+      const text = event.content ?? '';
+
+      if (
+        text.includes('\n') ||
+        lastText.includes('\n') ||
+        text.length > 1 ||
+        lastText.length > 1
+      ) {
+        return false;
+      }
+      // A word ends once whitespace is followed by something else
+      if (/\s$/.test(lastText) && /\S/.test(text)) {
+        return false;
+      }
+      return event.position === last.position + lastText.length;
+    }
+
+    if (event.event_type === 'delete' && last.event_type === 'delete') {
+      const length = event.content_before?.length ?? 0;
+      const lastLength = last.content_before?.length ?? 0;
+
+      if (length > 1 || lastLength > 1) {
+        return false;
+      }
+      // Backspace walks left, Delete stays put
+      return event.position + length === last.position || event.position === last.position;
+    }
+
+    return false;
+  }
+}
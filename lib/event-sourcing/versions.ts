@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, NamedVersion } from '@/types/supabase';
+import { withShareToken } from '@/lib/auth/document-access';
+
+type Client = SupabaseClient<Database>;
+
+/** Longest version name (matches the column in migration 013) */
+export const MAX_VERSION_NAME_LENGTH = 100;
+
+/**
+ * Check a version name from a request
+ *
+ * @param name - Name from the request body
+ * @returns Error message, or null if the name is valid
+ */
+export function validateVersionName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Name must be a non-empty string';
+  }
+  if (name.trim().length > MAX_VERSION_NAME_LENGTH) {
+    return `Name must be ${MAX_VERSION_NAME_LENGTH} characters or less`;
+  }
+  return null;
+}
+
+/**
+ * Fetch all named versions of a document
+ *
+ * @param supabase - Supabase client (RLS decides visibility)
+ * @param documentId - Document ID
+ * @returns Versions sorted by event_count ASC
+ */
+export async function listVersions(
+  supabase: Client,
+  documentId: string
+): Promise<NamedVersion[]> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select('*')
+    .eq('document_id', documentId)
+    .order('event_count', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Fetch a document's named versions from the API
+ *
+ * @param documentId - Document ID
+ * @param shareToken - Share token for unlisted documents
+ * @param signal - Abort the request
+ * @returns Versions sorted by event_count ASC
+ */
+export async function fetchNamedVersions(
+  documentId: string,
+  shareToken?: string | null,
+  signal?: AbortSignal
+): Promise<NamedVersion[]> {
+  const response = await fetch(
+    withShareToken(`/api/documents/${documentId}/versions`, shareToken),
+    { signal }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch versions: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.versions || [];
+}
+
+/**
+ * Tag a point of a document's history through the API
+ *
+ * @param documentId - Document ID
+ * @param name - Version name
+ * @param eventCount - Events included (defaults to the whole synced history)
+ * @returns Created version
+ */
+export async function createNamedVersion(
+  documentId: string,
+  name: string,
+  eventCount?: number
+): Promise<NamedVersion> {
+  const response = await fetch(`/api/documents/${documentId}/versions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, event_count: eventCount }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to create version: ${response.statusText}`);
+  }
+
+  return data.version;
+}
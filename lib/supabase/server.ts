@@ -1,6 +1,7 @@
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import type { Database } from '@/types/supabase';
+import { SHARE_TOKEN_HEADER } from '@/lib/auth/document-access';
 
 /**
  * Creates a Supabase client for server-side usage (Server Components, Server Actions)
@@ -10,10 +11,12 @@ import type { Database } from '@/types/supabase';
  * - Reads/writes cookies for session management via Next.js cookies API
  * - Uses the public anon key (respects RLS)
  * - Properly handles SSR cookie flow
+ * - Forwards an unlisted document's share token to RLS (x-share-token header)
  *
+ * @param options.shareToken - Share token from the request URL, if any
  * @returns Supabase client instance for server usage
  */
-export async function createClient() {
+export async function createClient(options: { shareToken?: string | null } = {}) {
   const cookieStore = await cookies();
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -25,6 +28,9 @@ export async function createClient() {
   }
 
   return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    global: options.shareToken
+      ? { headers: { [SHARE_TOKEN_HEADER]: options.shareToken } }
+      : undefined,
     cookies: {
       getAll() {
         return cookieStore.getAll();
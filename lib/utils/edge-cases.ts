@@ -6,6 +6,7 @@
  */
 
 import type { WritingEvent } from '@/types/events';
+import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
 
 /**
  * Document validation utilities
@@ -363,9 +364,7 @@ export const RecoveryHandler = {
    * Attempt to recover from corrupted events
    */
   recoverFromCorruptedEvents: (events: WritingEvent[]): WritingEvent[] => {
-    return events
-      .filter(EventValidator.isValidEvent)
-      .sort((a, b) => a.timestamp - b.timestamp);
+    return EventSourcingEngine.sortEvents(events.filter(EventValidator.isValidEvent));
   },
 
   /**
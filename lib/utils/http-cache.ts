@@ -0,0 +1,101 @@
+/**
+ * HTTP Cache Utilities
+ *
+ * Cache-Control and ETag helpers for read-only API responses.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Event History Cache Options
+ */
+export interface EventHistoryCacheOptions {
+  /** Document visibility; only public histories may be shared by CDNs */
+  visibility: 'private' | 'public' | 'unlisted';
+  /**
+   * Whether the response is a full page that is followed by more events.
+   * Events are immutable and numbered in arrival order (even late offline
+   * uploads go to the end), so such a page never changes; the open-ended
+   * tail changes on every upload.
+   */
+  complete: boolean;
+}
+
+/**
+ * Build Cache-Control for event history responses
+ *
+ * - public, full page: cached for a minute, then revalidated with the ETag
+ * - public, tail: cached for a few seconds on the CDN only
+ * - private / unlisted: never stored by shared caches
+ *
+ * Shared caches are kept short even for pages that never change: nothing
+ * purges the CDN when a document is made private or deleted, so a cached
+ * page stays readable until it expires.
+ *
+ * @param options - Cache options
+ * @returns Cache-Control header value
+ */
+export function eventHistoryCacheControl({
+  visibility,
+  complete,
+}: EventHistoryCacheOptions): string {
+  if (visibility !== 'public') {
+    return 'private, no-cache';
+  }
+
+  if (complete) {
+    return 'public, max-age=60, s-maxage=60';
+  }
+
+  return 'public, max-age=0, s-maxage=10';
+}
+
+/**
+ * Build a weak ETag for an append-only list
+ *
+ * Appending rows changes the count and the last ID, which is enough
+ * to tell two versions of an event or checkpoint list apart.
+ *
+ * @param scope - Extra key (query parameters that shape the response)
+ * @param items - Items in response order
+ * @returns Weak ETag value
+ */
+export function appendOnlyETag(scope: string, items: { id: string }[]): string {
+  const lastId = items.length > 0 ? items[items.length - 1].id : 'empty';
+  return `W/"${scope}:${items.length}:${lastId}"`;
+}
+
+/**
+ * Check If-None-Match against an ETag
+ *
+ * @param request - Incoming request
+ * @param etag - Current ETag
+ * @returns Whether the client already has this version
+ */
+export function isNotModified(request: NextRequest, etag: string): boolean {
+  const ifNoneMatch = request.headers.get('if-none-match');
+  if (!ifNoneMatch) return false;
+
+  return ifNoneMatch
+    .split(',')
+    .map((value) => value.trim())
+    .includes(etag);
+}
+
+/**
+ * Apply cache headers to a response
+ *
+ * @param response - Response to decorate
+ * @param cacheControl - Cache-Control value
+ * @param etag - ETag value
+ * @returns The same response
+ */
+export function withCacheHeaders<T extends NextResponse>(
+  response: T,
+  cacheControl: string,
+  etag: string
+): T {
+  response.headers.set('Cache-Control', cacheControl);
+  response.headers.set('ETag', etag);
+  return response;
+}
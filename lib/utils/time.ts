@@ -29,33 +29,6 @@ export function formatDuration(ms: number): string {
   return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
-/**
- * Calculate delay between events with condensed timing
- *
- * Strategy:
- * - Delays < 2s: Keep as-is
- * - Delays 2s-10s: Compress to 50%
- * - Delays > 10s: Compress to 2-3s
- *
- * This makes long pauses more watchable during playback.
- *
- * @param rawDelayMs - Raw delay in milliseconds
- * @returns Condensed delay in milliseconds
- */
-export function calculateDelay(rawDelayMs: number): number {
-  const seconds = rawDelayMs / 1000;
-
-  if (seconds < 2) {
-    return rawDelayMs;
-  } else if (seconds <= 10) {
-    return rawDelayMs * 0.5;
-  } else {
-    // Logarithmic compression for very long delays
-    const compressed = 2000 + Math.min(1000, Math.log10(seconds) * 300);
-    return compressed;
-  }
-}
-
 /**
  * Format timestamp to human-readable time
  *
@@ -71,6 +44,38 @@ export function formatTimestamp(timestamp: number): string {
   });
 }
 
+/**
+ * Format timestamp to a short date
+ *
+ * @param timestamp - Unix timestamp in milliseconds
+ * @returns Formatted string (e.g., "10월 19일")
+ */
+export function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('ko-KR', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * Format a wall-clock gap compactly
+ *
+ * @param ms - Gap in milliseconds
+ * @returns Formatted string (e.g., "45s", "12m", "3h", "2d")
+ */
+export function formatGap(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+
+  return `${Math.round(hours / 24)}d`;
+}
+
 /**
  * Get relative time string
  *
@@ -0,0 +1,72 @@
+import type { DiffResult, MyersDiff } from '@/lib/diff/myers-diff';
+import type { Checkpoint, WritingEvent, WritingEventInsert } from '@/types/events';
+
+/**
+ * Replay Worker Protocol
+ *
+ * Messages between `ReplayService` (main thread) and the replay worker.
+ * Histories are sent once (`load`) and then referred to by ID, so
+ * seeking through a long history doesn't copy it on every request.
+ */
+
+/**
+ * Replay Task
+ *
+ * - apply: Apply events on top of some content
+ * - build: Content of a loaded history after the event at `toIndex`
+ * - buildAt: Content of a loaded history with the events written up to
+ *   `timestamp` (see `EventSourcingEngine.replayUpTo`)
+ * - diff: Compare two texts (see `MyersDiff.compare`)
+ */
+export type ReplayTask =
+  | { kind: 'apply'; content: string; events: WritingEventInsert[] }
+  | { kind: 'build'; historyId: number; toIndex: number }
+  | { kind: 'buildAt'; historyId: number; timestamp: number }
+  | {
+      kind: 'diff';
+      text1: string;
+      text2: string;
+      options?: Parameters<MyersDiff['compare']>[2];
+    };
+
+/**
+ * Result of each task kind
+ */
+export interface ReplayTaskResults {
+  apply: string;
+  build: string;
+  buildAt: string;
+  diff: DiffResult;
+}
+
+export type ReplayTaskKind = ReplayTask['kind'];
+
+/**
+ * Main thread → worker
+ */
+export type ReplayWorkerRequest =
+  | { type: 'load'; historyId: number; events: WritingEvent[]; checkpoints: Checkpoint[] }
+  | { type: 'unload'; historyId: number }
+  | { type: 'run'; requestId: number; task: ReplayTask }
+  | { type: 'cancel'; requestId: number };
+
+/**
+ * Worker → main thread
+ *
+ * Every `run` ends with exactly one `result` or `error` (none once
+ * cancelled); `progress` may be sent any number of times before that.
+ */
+export type ReplayWorkerResponse =
+  | { type: 'progress'; requestId: number; progress: ReplayProgress }
+  | { type: 'result'; requestId: number; result: ReplayTaskResults[ReplayTaskKind] }
+  | { type: 'error'; requestId: number; message: string };
+
+/**
+ * Replay Progress
+ */
+export interface ReplayProgress {
+  /** Work units (events, or 0/1 for a diff) done so far */
+  completed: number;
+  /** Work units in total */
+  total: number;
+}
@@ -0,0 +1,369 @@
+import type { DiffResult } from '@/lib/diff/myers-diff';
+import { Logger } from '@/lib/utils/error-handler';
+import type { Checkpoint, WritingEvent, WritingEventInsert } from '@/types/events';
+import type {
+  ReplayProgress,
+  ReplayTask,
+  ReplayTaskKind,
+  ReplayTaskResults,
+  ReplayWorkerRequest,
+  ReplayWorkerResponse,
+} from './replay-protocol';
+import { ReplayTaskRunner } from './replay-tasks';
+
+/**
+ * Replay Request Options
+ */
+export interface ReplayRequestOptions {
+  /** Cancels the request; its promise rejects with an AbortError */
+  signal?: AbortSignal;
+  /** Called as the task advances */
+  onProgress?: (progress: ReplayProgress) => void;
+}
+
+/**
+ * Whether an error comes from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+interface History {
+  events: WritingEvent[];
+  checkpoints: Checkpoint[];
+}
+
+interface PendingRequest {
+  task: ReplayTask;
+  history?: History;
+  options: ReplayRequestOptions;
+  resolve: (result: ReplayTaskResults[ReplayTaskKind]) => void;
+  reject: (error: unknown) => void;
+  /** Detaches the abort listener */
+  release: () => void;
+}
+
+/**
+ * Replay Service
+ *
+ * Runs full replays and diffs off the main thread, so large documents
+ * don't freeze the page. Work goes to a Web Worker; where workers are
+ * unavailable (or the worker fails to start) the same code runs on the
+ * main thread instead, in slices that yield between them.
+ *
+ * Features:
+ * - Cancellation through `AbortSignal`
+ * - Progress reporting
+ * - Histories are sent to the worker once per events array
+ *
+ * Usage:
+ * ```ts
+ * const content = await ReplayService.buildContentUpToIndex(events, index, checkpoints, {
+ *   signal: controller.signal,
+ *   onProgress: ({ completed, total }) => setProgress(completed / total),
+ * });
+ * ```
+ */
+export class ReplayService {
+  /** Histories kept loaded in the worker (least recently used go first) */
+  private static readonly MAX_HISTORIES = 4;
+
+  private static worker: Worker | null = null;
+  private static workerUnavailable = false;
+  private static fallback: ReplayTaskRunner | null = null;
+
+  private static nextRequestId = 1;
+  private static nextHistoryId = 1;
+  private static pending = new Map<number, PendingRequest>();
+  private static historyIds = new WeakMap<WritingEvent[], { id: number; checkpoints: Checkpoint[] }>();
+  private static loadedHistories: number[] = [];
+
+  /**
+   * Apply events on top of content
+   *
+   * @param content - Content to start from
+   * @param events - Events to apply, in order
+   * @param options - Cancellation and progress
+   * @returns Content after all events
+   */
+  static applyEvents(
+    content: string,
+    events: WritingEventInsert[],
+    options: ReplayRequestOptions = {}
+  ): Promise<string> {
+    return this.request({ kind: 'apply', content, events }, options);
+  }
+
+  /**
+   * Content after the event at an index, starting from the best checkpoint
+   *
+   * Same result as `buildContentUpToIndex` in `replay.ts`.
+   *
+   * @param events - Full history (keep passing the same array: it is
+   * only sent to the worker the first time)
+   * @param toIndex - Event index to build up to (inclusive)
+   * @param checkpoints - Checkpoints for the same document
+   * @param options - Cancellation and progress
+   * @returns Content at that index
+   */
+  static buildContentUpToIndex(
+    events: WritingEvent[],
+    toIndex: number,
+    checkpoints: Checkpoint[] = [],
+    options: ReplayRequestOptions = {}
+  ): Promise<string> {
+    const historyId = this.historyIdFor(events, checkpoints);
+    return this.request({ kind: 'build', historyId, toIndex }, options, {
+      events,
+      checkpoints,
+    });
+  }
+
+  /**
+   * Content with the events written up to a timestamp
+   *
+   * Same result as `EventSourcingEngine.replayUpTo` (without a checkpoint).
+   *
+   * @param events - Full history (keep passing the same array: it is
+   * only sent to the worker the first time)
+   * @param timestamp - Replay events with a timestamp up to this one
+   * @param checkpoints - Checkpoints for the same document
+   * @param options - Cancellation and progress
+   * @returns Content at that time
+   */
+  static buildContentAtTime(
+    events: WritingEvent[],
+    timestamp: number,
+    checkpoints: Checkpoint[] = [],
+    options: ReplayRequestOptions = {}
+  ): Promise<string> {
+    const historyId = this.historyIdFor(events, checkpoints);
+    return this.request({ kind: 'buildAt', historyId, timestamp }, options, {
+      events,
+      checkpoints,
+    });
+  }
+
+  /**
+   * Compare two texts
+   *
+   * Same result as `compareTexts` in `myers-diff.ts`.
+   *
+   * @param text1 - Original text
+   * @param text2 - Modified text
+   * @param options - Cancellation and progress
+   * @returns Diff result
+   */
+  static diff(
+    text1: string,
+    text2: string,
+    options: ReplayRequestOptions = {}
+  ): Promise<DiffResult> {
+    return this.request({ kind: 'diff', text1, text2 }, options);
+  }
+
+  private static request<K extends ReplayTaskKind>(
+    task: Extract<ReplayTask, { kind: K }>,
+    options: ReplayRequestOptions,
+    history?: History
+  ): Promise<ReplayTaskResults[K]> {
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const requestId = this.nextRequestId++;
+      const onAbort = () => this.cancel(requestId);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(requestId, {
+        task,
+        history,
+        options,
+        resolve: resolve as PendingRequest['resolve'],
+        reject,
+        release: () => signal?.removeEventListener('abort', onAbort),
+      });
+
+      const worker = this.getWorker();
+      if (worker) {
+        this.sendToWorker(worker, requestId);
+      } else {
+        this.runOnMainThread(requestId);
+      }
+    });
+  }
+
+  private static sendToWorker(worker: Worker, requestId: number): void {
+    const request = this.pending.get(requestId);
+    if (!request) return;
+
+    if ('historyId' in request.task && request.history) {
+      this.ensureLoaded(request.task.historyId, request.history);
+    }
+    this.post(worker, { type: 'run', requestId, task: request.task });
+  }
+
+  private static async runOnMainThread(requestId: number): Promise<void> {
+    const request = this.pending.get(requestId);
+    if (!request) return;
+
+    if ('historyId' in request.task && request.history) {
+      this.ensureLoaded(request.task.historyId, request.history);
+    }
+
+    try {
+      const result = await this.getFallback().run(request.task, {
+        onProgress: (progress) => this.pending.get(requestId)?.options.onProgress?.(progress),
+        isCancelled: () => !this.pending.has(requestId),
+      });
+      this.settle(requestId, (pending) => pending.resolve(result));
+    } catch (error) {
+      this.settle(requestId, (pending) => pending.reject(error));
+    }
+  }
+
+  private static cancel(requestId: number): void {
+    const cancelled = this.settle(requestId, (pending) => pending.reject(abortError()));
+    if (cancelled && this.worker) {
+      this.post(this.worker, { type: 'cancel', requestId });
+    }
+  }
+
+  /**
+   * Finish a request once (later results for it are ignored)
+   *
+   * @returns Whether the request was still pending
+   */
+  private static settle(requestId: number, finish: (request: PendingRequest) => void): boolean {
+    const request = this.pending.get(requestId);
+    if (!request) return false;
+
+    this.pending.delete(requestId);
+    request.release();
+    finish(request);
+    return true;
+  }
+
+  private static handleMessage(message: ReplayWorkerResponse): void {
+    switch (message.type) {
+      case 'progress':
+        this.pending.get(message.requestId)?.options.onProgress?.(message.progress);
+        return;
+      case 'result':
+        this.settle(message.requestId, (request) => request.resolve(message.result));
+        return;
+      case 'error':
+        this.settle(message.requestId, (request) => request.reject(new Error(message.message)));
+        return;
+    }
+  }
+
+  /**
+   * Start the worker on first use
+   *
+   * @returns Worker, or null to run on the main thread
+   */
+  private static getWorker(): Worker | null {
+    if (this.worker || this.workerUnavailable) {
+      return this.worker;
+    }
+
+    if (typeof Worker === 'undefined') {
+      this.workerUnavailable = true;
+      return null;
+    }
+
+    try {
+      const worker = new Worker(new URL('./replay.worker.ts', import.meta.url));
+      worker.addEventListener('message', (event: MessageEvent<ReplayWorkerResponse>) =>
+        this.handleMessage(event.data)
+      );
+      worker.addEventListener('error', (event) => this.handleWorkerFailure(event.message));
+      this.worker = worker;
+    } catch (error) {
+      this.handleWorkerFailure(error instanceof Error ? error.message : String(error));
+    }
+
+    return this.worker;
+  }
+
+  /**
+   * Give up on the worker and finish its requests on the main thread
+   */
+  private static handleWorkerFailure(reason: string): void {
+    Logger.warn('ReplayService: worker unavailable, replaying on the main thread', { reason });
+
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerUnavailable = true;
+    this.loadedHistories = [];
+
+    for (const requestId of [...this.pending.keys()]) {
+      this.runOnMainThread(requestId);
+    }
+  }
+
+  /**
+   * ID under which a history is loaded (new when checkpoints changed)
+   */
+  private static historyIdFor(events: WritingEvent[], checkpoints: Checkpoint[]): number {
+    const known = this.historyIds.get(events);
+    if (known && known.checkpoints === checkpoints) {
+      return known.id;
+    }
+
+    const id = this.nextHistoryId++;
+    this.historyIds.set(events, { id, checkpoints });
+    return id;
+  }
+
+  private static getFallback(): ReplayTaskRunner {
+    this.fallback ??= new ReplayTaskRunner();
+    return this.fallback;
+  }
+
+  /**
+   * Load a history where tasks run (the worker, or else the fallback)
+   *
+   * Loaded histories keep their playback index, so they stay loaded
+   * until evicted rather than being reloaded per request.
+   */
+  private static ensureLoaded(historyId: number, history: History): void {
+    const index = this.loadedHistories.indexOf(historyId);
+    if (index !== -1) {
+      // Most recently used last
+      this.loadedHistories.splice(index, 1);
+      this.loadedHistories.push(historyId);
+      return;
+    }
+
+    if (this.worker) {
+      this.post(this.worker, { type: 'load', historyId, ...history });
+    } else {
+      this.getFallback().load(historyId, history.events, history.checkpoints);
+    }
+    this.loadedHistories.push(historyId);
+
+    while (this.loadedHistories.length > this.MAX_HISTORIES) {
+      const evicted = this.loadedHistories.shift()!;
+      if (this.worker) {
+        this.post(this.worker, { type: 'unload', historyId: evicted });
+      } else {
+        this.getFallback().unload(evicted);
+      }
+    }
+  }
+
+  private static post(worker: Worker, message: ReplayWorkerRequest): void {
+    worker.postMessage(message);
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('Replay request cancelled');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,145 @@
+import { myersDiff } from '@/lib/diff/myers-diff';
+import { DocumentBuffer } from '@/lib/event-sourcing/document-buffer';
+import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { PlaybackIndex } from '@/lib/event-sourcing/playback-index';
+import type { Checkpoint, WritingEvent } from '@/types/events';
+import type { ReplayProgress, ReplayTask, ReplayTaskResults } from './replay-protocol';
+
+/** Events applied between progress reports and cancellation checks */
+const EVENTS_PER_SLICE = 5000;
+
+/**
+ * Hooks a running task reports to
+ */
+export interface ReplayTaskContext {
+  onProgress: (progress: ReplayProgress) => void;
+  /** Whether the task was cancelled (checked between slices) */
+  isCancelled: () => boolean;
+}
+
+/**
+ * Thrown inside a task once it notices it was cancelled
+ */
+export class ReplayCancelledError extends Error {
+  constructor() {
+    super('Replay task cancelled');
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Replay Task Runner
+ *
+ * Runs replay and diff tasks in slices, yielding to the event loop in
+ * between: inside the worker that lets cancel messages through, and in
+ * the main-thread fallback it keeps the page responsive.
+ *
+ * Each loaded history keeps a `PlaybackIndex`, so repeated builds
+ * (seeking, scrubbing) replay from the nearest snapshot.
+ */
+export class ReplayTaskRunner {
+  private histories = new Map<number, PlaybackIndex>();
+
+  load(historyId: number, events: WritingEvent[], checkpoints: Checkpoint[]): void {
+    this.histories.set(historyId, new PlaybackIndex(events, { checkpoints }));
+  }
+
+  unload(historyId: number): void {
+    this.histories.delete(historyId);
+  }
+
+  async run<K extends ReplayTask['kind']>(
+    task: Extract<ReplayTask, { kind: K }>,
+    context: ReplayTaskContext
+  ): Promise<ReplayTaskResults[K]>;
+  async run(
+    task: ReplayTask,
+    context: ReplayTaskContext
+  ): Promise<ReplayTaskResults[ReplayTask['kind']]> {
+    switch (task.kind) {
+      case 'apply': {
+        const buffer = new DocumentBuffer(task.content);
+        return this.apply(buffer, 0, task.events.length, context, (from, to) =>
+          buffer.applyAll(task.events.slice(from, to))
+        );
+      }
+
+      case 'build': {
+        const index = this.getHistory(task.historyId);
+        if (index.length === 0 || task.toIndex < 0) return '';
+
+        const endIndex = Math.min(task.toIndex, index.length - 1);
+        const snapshot = index.nearestSnapshot(endIndex);
+        const buffer = new DocumentBuffer(snapshot.content);
+
+        return this.apply(buffer, snapshot.eventCount, endIndex + 1, context, (from, to) =>
+          index.replay(buffer, from, to)
+        );
+      }
+
+      case 'buildAt': {
+        // Same events as `replayUpTo`: everything with a timestamp up to
+        // the target, even past a later-stamped event
+        const index = this.getHistory(task.historyId);
+        const events = EventSourcingEngine.sortEvents(index.events).filter(
+          (event) => event.timestamp <= task.timestamp
+        );
+        const buffer = new DocumentBuffer('');
+
+        return this.apply(buffer, 0, events.length, context, (from, to) =>
+          buffer.applyAll(events.slice(from, to))
+        );
+      }
+
+      case 'diff': {
+        context.onProgress({ completed: 0, total: 1 });
+        const result = myersDiff.compare(task.text1, task.text2, task.options);
+        context.onProgress({ completed: 1, total: 1 });
+        return result;
+      }
+    }
+  }
+
+  private getHistory(historyId: number): PlaybackIndex {
+    const index = this.histories.get(historyId);
+    if (!index) {
+      throw new Error(`Unknown history ${historyId}`);
+    }
+    return index;
+  }
+
+  /**
+   * Apply events `from`..`to` (exclusive) to a buffer one slice at a time
+   *
+   * @param applySlice - Applies a range of events to `buffer`
+   */
+  private async apply(
+    buffer: DocumentBuffer,
+    from: number,
+    to: number,
+    context: ReplayTaskContext,
+    applySlice: (from: number, to: number) => void
+  ): Promise<string> {
+    const total = to - from;
+
+    for (let start = from; start < to; start += EVENTS_PER_SLICE) {
+      if (context.isCancelled()) {
+        throw new ReplayCancelledError();
+      }
+
+      const end = Math.min(start + EVENTS_PER_SLICE, to);
+      applySlice(start, end);
+      context.onProgress({ completed: end - from, total });
+
+      if (end < to) {
+        await yieldToEventLoop();
+      }
+    }
+
+    return buffer.toString();
+  }
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
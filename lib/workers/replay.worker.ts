@@ -0,0 +1,69 @@
+import type { ReplayWorkerRequest, ReplayWorkerResponse } from './replay-protocol';
+import { ReplayCancelledError, ReplayTaskRunner } from './replay-tasks';
+
+/**
+ * Replay Worker
+ *
+ * Entry point of the worker started by `ReplayService`. Tasks run one
+ * slice at a time, so a `cancel` arriving mid-task is seen before the
+ * next slice.
+ */
+
+// The DOM lib types `self` as a window; only these two members are used
+const scope = self as unknown as Pick<Worker, 'postMessage' | 'addEventListener'>;
+
+const runner = new ReplayTaskRunner();
+// Requests still running, and whether each was cancelled. A cancel for a
+// request that already finished finds nothing here and is dropped.
+const running = new Map<number, { cancelled: boolean }>();
+
+function send(message: ReplayWorkerResponse): void {
+  scope.postMessage(message);
+}
+
+scope.addEventListener('message', async (event: MessageEvent<ReplayWorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'load':
+      runner.load(message.historyId, message.events, message.checkpoints);
+      return;
+
+    case 'unload':
+      runner.unload(message.historyId);
+      return;
+
+    case 'cancel': {
+      const run = running.get(message.requestId);
+      if (run) run.cancelled = true;
+      return;
+    }
+
+    case 'run': {
+      const { requestId, task } = message;
+      const run = { cancelled: false };
+      running.set(requestId, run);
+
+      try {
+        const result = await runner.run(task, {
+          onProgress: (progress) => send({ type: 'progress', requestId, progress }),
+          isCancelled: () => run.cancelled,
+        });
+
+        if (!run.cancelled) {
+          send({ type: 'result', requestId, result });
+        }
+      } catch (error) {
+        if (!(error instanceof ReplayCancelledError)) {
+          send({
+            type: 'error',
+            requestId,
+            message: error instanceof Error ? error.message : 'Replay task failed',
+          });
+        }
+      } finally {
+        running.delete(requestId);
+      }
+    }
+  }
+});
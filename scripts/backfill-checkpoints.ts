@@ -0,0 +1,55 @@
+import { createAdminClient } from '@/lib/supabase/server';
+import { createDueCheckpoints } from '@/lib/event-sourcing/checkpoints';
+
+/**
+ * Backfill Checkpoints
+ *
+ * Checkpoints are only created when events are uploaded or a document is
+ * forked, so the ones migration 020 removed would never come back for
+ * documents nobody writes to anymore. This rebuilds every due checkpoint
+ * of every document; documents that already have theirs are skipped.
+ *
+ * Run once after applying migration 020:
+ *
+ *   NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run backfill:checkpoints
+ */
+
+const PAGE_SIZE = 500;
+
+async function main(): Promise<void> {
+  const supabase = createAdminClient();
+  let documents = 0;
+  let created = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('documents')
+      .select('id')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const { id } of data ?? []) {
+      const checkpoints = await createDueCheckpoints(supabase, id);
+      documents++;
+      created += checkpoints.length;
+
+      if (checkpoints.length > 0) {
+        console.log(`${id}: ${checkpoints.length} checkpoint(s)`);
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  console.log(`Checked ${documents} documents, created ${created} checkpoints`);
+}
+
+main().catch((error) => {
+  console.error('Checkpoint backfill failed:', error);
+  process.exit(1);
+});
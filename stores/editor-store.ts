@@ -1,6 +1,11 @@
 import { create } from 'zustand';
 import { SyncQueueManager } from '@/lib/db/sync-queue';
-import type { WritingEventInsert, DocumentState } from '@/types/events';
+import { DocumentCache } from '@/lib/db/document-cache';
+import { EventSourcingEngine } from '@/lib/event-sourcing/engine';
+import { rebaseEvents, transformPosition } from '@/lib/event-sourcing/transform';
+import { caretAfterEvent } from '@/lib/event-sourcing/live';
+import { UndoHistory } from '@/lib/event-sourcing/undo';
+import type { WritingEvent, WritingEventInsert, DocumentState } from '@/types/events';
 
 /**
  * Editor Store State
@@ -16,23 +21,40 @@ interface EditorState {
   content: string;
   cursorPosition: number;
 
+  // Undo/redo state
+  history: UndoHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+
   // Sync state
   isSaving: boolean;
   lastSavedAt: string | null;
   pendingEventCount: number;
   syncError: string | null;
 
+  // Edits from another device are being merged in; local edits are held
+  // back until then (see `SyncQueueManager.onCatchUp`)
+  isCatchingUp: boolean;
+  heldEvents: WritingEvent[];
+
   // Auto-sync interval ID for cleanup
   autoSyncIntervalId: NodeJS.Timeout | null;
 
+  // Stops listening for edits (and catch-ups) merged in from other devices
+  unsubscribeRemote: (() => void) | null;
+
   // Actions
   initDocument: (documentId: string, initialContent: string) => void;
   updateContent: (
     newContent: string,
     cursorPosition: number,
-    event: WritingEventInsert
+    events: WritingEventInsert[]
   ) => Promise<void>;
+  previewContent: (content: string) => void;
   setCursorPosition: (position: number) => void;
+  applyRemoteEvents: (events: WritingEvent[]) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
   startNewSession: () => void;
   syncNow: () => Promise<void>;
   clearDocument: () => void;
@@ -40,6 +62,80 @@ interface EditorState {
   stopAutoSync: () => void;
 }
 
+type StoreGet = () => EditorState;
+type StoreSet = (partial: Partial<EditorState>) => void;
+
+/**
+ * Apply events produced by undo/redo and queue them like typed edits
+ */
+async function applyHistoryEvents(
+  events: WritingEventInsert[],
+  get: StoreGet,
+  set: StoreSet
+): Promise<void> {
+  const state = get();
+  if (events.length === 0 || !state.currentDocument) return;
+
+  const stamped = events.map((event) => ({ ...event, session_id: state.sessionId }));
+  const content = EventSourcingEngine.applyEvents(state.content, stamped);
+  const cursorPosition = caretAfterEvent(stamped[stamped.length - 1]);
+
+  set({
+    content,
+    cursorPosition,
+    canUndo: state.history.canUndo,
+    canRedo: state.history.canRedo,
+    currentDocument: {
+      ...state.currentDocument,
+      content,
+      cursor_position: cursorPosition,
+    },
+  });
+
+  try {
+    await SyncQueueManager.enqueueBatch(stamped);
+    await DocumentCache.saveContent(state.currentDocument.id, content);
+
+    const pendingCount = await SyncQueueManager.getPending(state.currentDocument.id).then(
+      (pending) => pending.length
+    );
+    set({ pendingEventCount: pendingCount, syncError: null });
+  } catch (error) {
+    console.error('Failed to queue undo/redo events:', error);
+    set({
+      syncError: error instanceof Error ? error.message : 'Failed to queue event',
+    });
+  }
+}
+
+/**
+ * Queue edits held back while a catch-up ran
+ *
+ * By now they are rebased over the merged remote edits (see
+ * `applyRemoteEvents`), and `content` already shows both.
+ */
+async function queueHeldEvents(get: StoreGet, set: StoreSet): Promise<void> {
+  const { heldEvents, currentDocument, content } = get();
+  if (heldEvents.length === 0 || !currentDocument) return;
+
+  set({ heldEvents: [] });
+
+  try {
+    await SyncQueueManager.enqueueBatch(heldEvents);
+    await DocumentCache.saveContent(currentDocument.id, content);
+
+    const pendingCount = await SyncQueueManager.getPending(currentDocument.id).then(
+      (pending) => pending.length
+    );
+    set({ pendingEventCount: pendingCount, syncError: null });
+  } catch (error) {
+    console.error('Failed to queue held events:', error);
+    set({
+      syncError: error instanceof Error ? error.message : 'Failed to queue event',
+    });
+  }
+}
+
 /**
  * Editor Store
  *
@@ -50,6 +146,7 @@ interface EditorState {
  * - Queue writing events to IndexedDB
  * - Coordinate synchronization to server
  * - Manage writing sessions
+ * - Undo/redo via inverse events
  */
 export const useEditorStore = create<EditorState>((set, get) => ({
   // Initial state
@@ -57,11 +154,17 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   sessionId: crypto.randomUUID(),
   content: '',
   cursorPosition: 0,
+  history: new UndoHistory(),
+  canUndo: false,
+  canRedo: false,
   isSaving: false,
   lastSavedAt: null,
   pendingEventCount: 0,
   syncError: null,
+  isCatchingUp: false,
+  heldEvents: [],
   autoSyncIntervalId: null,
+  unsubscribeRemote: null,
 
   /**
    * Initialize a document for editing
@@ -69,6 +172,21 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   initDocument: (documentId: string, initialContent: string) => {
     const newSessionId = crypto.randomUUID();
 
+    get().unsubscribeRemote?.();
+    const unsubscribeEvents = SyncQueueManager.onRemoteEvents(documentId, (events) =>
+      get().applyRemoteEvents(events)
+    );
+    const unsubscribeCatchUp = SyncQueueManager.onCatchUp(documentId, (isCatchingUp) => {
+      set({ isCatchingUp });
+      if (!isCatchingUp) {
+        queueHeldEvents(get, set);
+      }
+    });
+    const unsubscribeRemote = () => {
+      unsubscribeEvents();
+      unsubscribeCatchUp();
+    };
+
     set({
       currentDocument: {
         id: documentId,
@@ -81,29 +199,44 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       sessionId: newSessionId,
       content: initialContent,
       cursorPosition: 0,
+      history: new UndoHistory(),
+      canUndo: false,
+      canRedo: false,
       isSaving: false,
       lastSavedAt: null,
       pendingEventCount: 0,
       syncError: null,
+      isCatchingUp: false,
+      heldEvents: [],
+      unsubscribeRemote,
     });
   },
 
   /**
-   * Update content and queue event
+   * Update content and queue its events
    *
-   * This is called on every keystroke/edit.
+   * This is called on every keystroke/edit. A single change may produce
+   * several events (one per changed region).
    */
   updateContent: async (
     newContent: string,
     cursorPosition: number,
-    event: WritingEventInsert
+    events: WritingEventInsert[]
   ) => {
+    if (events.length === 0) return;
+
     const state = get();
+    const documentId = events[0].document_id;
+    const sessionEvents = events.map((event) => ({ ...event, session_id: state.sessionId }));
+
+    state.history.record(sessionEvents);
 
     // Update local state immediately for responsive UI
     set({
       content: newContent,
       cursorPosition,
+      canUndo: state.history.canUndo,
+      canRedo: state.history.canRedo,
       currentDocument: state.currentDocument
         ? {
             ...state.currentDocument,
@@ -113,17 +246,29 @@ export const useEditorStore = create<EditorState>((set, get) => ({
         : null,
     });
 
+    // A catch-up is merging in remote edits: hold these back until they
+    // can be rebased over them
+    if (state.isCatchingUp) {
+      set({
+        heldEvents: [
+          ...get().heldEvents,
+          ...sessionEvents.map((event) => ({ ...event, id: event.id ?? crypto.randomUUID() })),
+        ],
+      });
+      return;
+    }
+
     try {
       // Queue event to IndexedDB
-      await SyncQueueManager.enqueue({
-        ...event,
-        session_id: state.sessionId,
-      });
+      await SyncQueueManager.enqueueBatch(sessionEvents);
+
+      // Keep the local cache current so a reopen can restore offline
+      await DocumentCache.saveContent(documentId, newContent);
 
       // Update pending count
       const pendingCount = await SyncQueueManager.getPending(
-        event.document_id
-      ).then((events) => events.length);
+        documentId
+      ).then((pending) => pending.length);
 
       set({
         pendingEventCount: pendingCount,
@@ -142,6 +287,18 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     }
   },
 
+  /**
+   * Show content without creating an event
+   *
+   * Used while an IME composition is in progress: the textarea must
+   * reflect the composing text, but only the committed result is recorded.
+   * The cursor is left alone: moving the selection would cancel the
+   * composition in some browsers.
+   */
+  previewContent: (content: string) => {
+    set({ content });
+  },
+
   /**
    * Update cursor position without creating an event
    */
@@ -149,6 +306,61 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     set({ cursorPosition: position });
   },
 
+  /**
+   * Apply edits from another device that sync merged in
+   *
+   * No events are queued: these are already in the server history.
+   * The cursor is shifted so it stays next to the same text. Edits held
+   * back during the catch-up are already on screen, so the two are
+   * rebased over each other.
+   */
+  applyRemoteEvents: (events: WritingEvent[]) => {
+    const state = get();
+    const rebased = rebaseEvents(state.heldEvents, events);
+    const content = EventSourcingEngine.applyEvents(state.content, rebased.concurrent);
+    const cursorPosition = rebased.concurrent.reduce(
+      transformPosition,
+      state.cursorPosition
+    );
+
+    // Undo positions refer to the content before the merge
+    state.history.clear();
+
+    set({
+      content,
+      cursorPosition,
+      heldEvents: rebased.events,
+      canUndo: false,
+      canRedo: false,
+      currentDocument: state.currentDocument
+        ? {
+            ...state.currentDocument,
+            content,
+            cursor_position: cursorPosition,
+          }
+        : null,
+    });
+  },
+
+  /**
+   * Undo the latest unit of editing
+   *
+   * Appends inverse events rather than dropping the originals, so the
+   * timeline shows the text being written and then taken back.
+   */
+  undo: async () => {
+    if (get().isCatchingUp) return;
+    await applyHistoryEvents(get().history.undo(), get, set);
+  },
+
+  /**
+   * Redo the latest undone unit of editing
+   */
+  redo: async () => {
+    if (get().isCatchingUp) return;
+    await applyHistoryEvents(get().history.redo(), get, set);
+  },
+
   /**
    * Start a new writing session
    *
@@ -214,16 +426,23 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     if (state.autoSyncIntervalId) {
       clearInterval(state.autoSyncIntervalId);
     }
+    state.unsubscribeRemote?.();
     
     set({
       currentDocument: null,
       content: '',
       cursorPosition: 0,
+      history: new UndoHistory(),
+      canUndo: false,
+      canRedo: false,
       isSaving: false,
       lastSavedAt: null,
       pendingEventCount: 0,
       syncError: null,
+      isCatchingUp: false,
+      heldEvents: [],
       autoSyncIntervalId: null,
+      unsubscribeRemote: null,
     });
   },
 
@@ -0,0 +1,6 @@
+-- Writing Timeline Platform - Checkpoint Uniqueness
+-- Migration: 007_checkpoint_uniqueness.sql
+-- Description: One checkpoint per event boundary, so concurrent event uploads cannot create duplicates
+
+CREATE UNIQUE INDEX idx_checkpoints_document_event_count_unique
+  ON checkpoints(document_id, event_count);
@@ -0,0 +1,102 @@
+-- Writing Timeline Platform - Unlisted Documents
+-- Migration: 008_unlisted_share_tokens.sql
+-- Description: Share tokens for unlisted documents and RLS policies that honor them
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Unguessable per-document token used in share links for unlisted
+-- documents. Tokens live in their own table that only owners can read,
+-- so reading a document (e.g. a public one) never reveals its token;
+-- policies compare them through `request_has_share_token()`.
+CREATE TABLE document_share_tokens (
+  document_id UUID PRIMARY KEY REFERENCES documents(id) ON DELETE CASCADE,
+  share_token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex')
+);
+
+INSERT INTO document_share_tokens (document_id)
+SELECT id FROM documents;
+
+ALTER TABLE document_share_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view share tokens of their own documents"
+  ON document_share_tokens FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_share_tokens.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
+
+-- Every document gets a token; a new one replaces it whenever the
+-- visibility changes, so a link seen while the document was public (or
+-- before it was made private) doesn't open it once it's unlisted again
+CREATE OR REPLACE FUNCTION issue_share_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO document_share_tokens (document_id) VALUES (NEW.id);
+  ELSIF NEW.visibility IS DISTINCT FROM OLD.visibility THEN
+    UPDATE document_share_tokens
+    SET share_token = encode(gen_random_bytes(24), 'hex')
+    WHERE document_share_tokens.document_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER issue_share_token_on_write
+  AFTER INSERT OR UPDATE OF visibility ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_share_token();
+
+-- Share token sent by the API as the `x-share-token` request header
+CREATE OR REPLACE FUNCTION request_share_token()
+RETURNS TEXT AS $$
+  SELECT NULLIF(
+    current_setting('request.headers', true)::json->>'x-share-token',
+    ''
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Whether the request carries the share token of a document
+CREATE OR REPLACE FUNCTION request_has_share_token(p_document_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM document_share_tokens
+    WHERE document_share_tokens.document_id = p_document_id
+    AND document_share_tokens.share_token = request_share_token()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Unlisted documents are readable only with their share token.
+-- Matching on the token means they can never show up in a listing.
+CREATE POLICY "Unlisted documents are viewable with their share token"
+  ON documents FOR SELECT
+  USING (
+    visibility = 'unlisted'
+    AND request_has_share_token(id)
+  );
+
+CREATE POLICY "Events for unlisted documents are viewable with their share token"
+  ON writing_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = writing_events.document_id
+      AND documents.visibility = 'unlisted'
+      AND request_has_share_token(documents.id)
+    )
+  );
+
+CREATE POLICY "Checkpoints for unlisted documents are viewable with their share token"
+  ON checkpoints FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = checkpoints.document_id
+      AND documents.visibility = 'unlisted'
+      AND request_has_share_token(documents.id)
+    )
+  );
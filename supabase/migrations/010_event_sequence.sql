@@ -0,0 +1,65 @@
+-- Writing Timeline Platform - Per-Document Event Sequence
+-- Migration: 010_event_sequence.sql
+-- Description: Server-assigned, gap-free sequence number per document for deterministic replay order
+
+-- Last sequence number handed out for each document
+ALTER TABLE documents
+ADD COLUMN event_seq BIGINT NOT NULL DEFAULT 0;
+
+ALTER TABLE writing_events
+ADD COLUMN seq BIGINT;
+
+-- Backfill existing events in their previous (timestamp, id) order
+WITH numbered AS (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (PARTITION BY document_id ORDER BY timestamp ASC, id ASC) AS seq
+  FROM writing_events
+)
+UPDATE writing_events
+SET seq = numbered.seq
+FROM numbered
+WHERE writing_events.id = numbered.id;
+
+UPDATE documents
+SET event_seq = COALESCE(
+  (SELECT MAX(seq) FROM writing_events WHERE writing_events.document_id = documents.id),
+  0
+);
+
+ALTER TABLE writing_events
+ALTER COLUMN seq SET NOT NULL;
+
+CREATE UNIQUE INDEX idx_events_document_seq ON writing_events(document_id, seq ASC);
+
+-- Assign the next sequence number on insert. Incrementing the counter
+-- locks the document row, so concurrent batches for the same document
+-- are numbered one after the other; rows within a batch keep their order.
+-- A row whose ID is already stored for the document (a retried upload,
+-- or a repeat within the batch) is skipped before it takes a number, so
+-- the sequence has no gaps; an ID stored under another document still
+-- fails on the primary key.
+CREATE OR REPLACE FUNCTION assign_event_seq()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM writing_events
+    WHERE writing_events.id = NEW.id
+      AND writing_events.document_id = NEW.document_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE documents
+  SET event_seq = event_seq + 1
+  WHERE id = NEW.document_id
+  RETURNING event_seq INTO NEW.seq;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER assign_event_seq_on_insert
+  BEFORE INSERT ON writing_events
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_event_seq();
@@ -0,0 +1,44 @@
+-- Writing Timeline Platform - Conditional Event Append
+-- Migration: 011_append_events.sql
+-- Description: Append a batch of events only if no other batch landed after the expected seq
+
+-- Batches authored offline declare the seq they were written against. The
+-- API rebases them over any newer events and then appends them with this
+-- function, which fails if yet another batch slipped in meanwhile so the
+-- API can rebase again. Runs with the caller's rights, so RLS still
+-- decides who may append to a document.
+CREATE OR REPLACE FUNCTION append_events(
+  p_document_id UUID,
+  p_expected_seq BIGINT,
+  p_events JSONB
+)
+RETURNS TABLE (id UUID, seq BIGINT) AS $$
+BEGIN
+  -- Serialize appends to the same document
+  PERFORM 1 FROM documents WHERE documents.id = p_document_id FOR UPDATE;
+
+  IF p_expected_seq IS NOT NULL AND EXISTS (
+    SELECT 1 FROM writing_events
+    WHERE writing_events.document_id = p_document_id
+      AND writing_events.seq > p_expected_seq
+  ) THEN
+    RAISE EXCEPTION 'Events were appended after seq %', p_expected_seq
+      USING ERRCODE = '40001';
+  END IF;
+
+  -- Rows are inserted (and numbered) in array order; IDs already stored
+  -- for the document are skipped (by assign_event_seq, before they are
+  -- numbered) so retried batches stay idempotent
+  RETURN QUERY
+  INSERT INTO writing_events (
+    id, document_id, session_id, timestamp, event_type, position, content, content_before
+  )
+  SELECT
+    event.id, event.document_id, event.session_id, event.timestamp,
+    event.event_type, event.position, event.content, event.content_before
+  FROM jsonb_array_elements(p_events) WITH ORDINALITY AS item(value, ord),
+    jsonb_populate_record(NULL::writing_events, item.value) AS event
+  ORDER BY item.ord
+  RETURNING writing_events.id, writing_events.seq;
+END;
+$$ LANGUAGE plpgsql;
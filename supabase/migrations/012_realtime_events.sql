@@ -0,0 +1,7 @@
+-- Writing Timeline Platform - Realtime Event Feed
+-- Migration: 012_realtime_events.sql
+-- Description: Broadcast new writing events so readers can watch a document being written
+
+-- Realtime only delivers rows the subscriber may SELECT, so the existing
+-- RLS policies keep private documents private
+ALTER PUBLICATION supabase_realtime ADD TABLE writing_events;
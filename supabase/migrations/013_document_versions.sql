@@ -0,0 +1,93 @@
+-- Writing Timeline Platform - Named Versions
+-- Migration: 013_document_versions.sql
+-- Description: Milestones authors tag on their timeline ("Draft 2", "Sent to editor")
+
+-- A version names a point in the history: the content after the first
+-- `event_count` events (same meaning as checkpoints.event_count)
+CREATE TABLE document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL CHECK (length(trim(name)) > 0),
+  event_count BIGINT NOT NULL CHECK (event_count >= 0),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_document_versions_document_event_count
+  ON document_versions(document_id, event_count ASC);
+
+ALTER TABLE document_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are visible to whoever can read the document
+
+CREATE POLICY "Users can view versions of their own documents"
+  ON document_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Versions of public documents are viewable by everyone"
+  ON document_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.visibility = 'public'
+    )
+  );
+
+CREATE POLICY "Versions of unlisted documents are viewable with their share token"
+  ON document_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.visibility = 'unlisted'
+      AND request_has_share_token(documents.id)
+    )
+  );
+
+-- Only the author tags, renames and removes versions, and only within
+-- the history that exists
+
+CREATE POLICY "Users can create versions of their own documents"
+  ON document_versions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+      AND document_versions.event_count <= documents.event_seq
+    )
+  );
+
+CREATE POLICY "Users can rename versions of their own documents"
+  ON document_versions FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+      AND document_versions.event_count <= documents.event_seq
+    )
+  );
+
+CREATE POLICY "Users can delete versions of their own documents"
+  ON document_versions FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_versions.document_id
+      AND documents.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,49 @@
+-- Writing Timeline Platform - Restore Marker
+-- Migration: 014_restore_marker.sql
+-- Description: Mark the compensating events appended by "restore to this moment"
+
+-- Events stay immutable, so restoring appends the edits that bring the
+-- text back to the state right after an earlier event. `restored_to`
+-- holds that event's seq (0 for the empty document); it is NULL for
+-- ordinary edits.
+ALTER TABLE writing_events
+ADD COLUMN restored_to BIGINT;
+
+-- Same as migration 011, now also storing the restore marker
+CREATE OR REPLACE FUNCTION append_events(
+  p_document_id UUID,
+  p_expected_seq BIGINT,
+  p_events JSONB
+)
+RETURNS TABLE (id UUID, seq BIGINT) AS $$
+BEGIN
+  -- Serialize appends to the same document
+  PERFORM 1 FROM documents WHERE documents.id = p_document_id FOR UPDATE;
+
+  IF p_expected_seq IS NOT NULL AND EXISTS (
+    SELECT 1 FROM writing_events
+    WHERE writing_events.document_id = p_document_id
+      AND writing_events.seq > p_expected_seq
+  ) THEN
+    RAISE EXCEPTION 'Events were appended after seq %', p_expected_seq
+      USING ERRCODE = '40001';
+  END IF;
+
+  -- Rows are inserted (and numbered) in array order; IDs already stored
+  -- for the document are skipped (by assign_event_seq, before they are
+  -- numbered) so retried batches stay idempotent
+  RETURN QUERY
+  INSERT INTO writing_events (
+    id, document_id, session_id, timestamp, event_type, position, content, content_before,
+    restored_to
+  )
+  SELECT
+    event.id, event.document_id, event.session_id, event.timestamp,
+    event.event_type, event.position, event.content, event.content_before,
+    event.restored_to
+  FROM jsonb_array_elements(p_events) WITH ORDINALITY AS item(value, ord),
+    jsonb_populate_record(NULL::writing_events, item.value) AS event
+  ORDER BY item.ord
+  RETURNING writing_events.id, writing_events.seq;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,167 @@
+-- Writing Timeline Platform - Document Forks
+-- Migration: 015_document_forks.sql
+-- Description: Forks that share their parent's history up to a chosen event instead of copying it
+
+-- A fork inherits the first `forked_event_count` events of its parent's
+-- history (seq 1..n, same meaning as checkpoints.event_count) and numbers
+-- its own events from n + 1, so its whole history stays one gap-free
+-- sequence. Inherited rows stay with the parent, which therefore can't be
+-- deleted while it has forks.
+ALTER TABLE documents
+ADD COLUMN forked_from UUID REFERENCES documents(id) ON DELETE RESTRICT,
+ADD COLUMN forked_event_count BIGINT,
+ADD CONSTRAINT documents_fork_origin CHECK (
+  (forked_from IS NULL AND forked_event_count IS NULL)
+  OR (forked_from IS NOT NULL AND forked_event_count >= 0)
+);
+
+CREATE INDEX idx_documents_forked_from ON documents(forked_from)
+  WHERE forked_from IS NOT NULL;
+
+-- Authors fork their own documents, within the history that exists. The
+-- fork origin is fixed once set, which also rules out cycles.
+CREATE OR REPLACE FUNCTION check_document_fork()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent documents%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.forked_from IS DISTINCT FROM OLD.forked_from
+      OR NEW.forked_event_count IS DISTINCT FROM OLD.forked_event_count THEN
+      RAISE EXCEPTION 'The fork origin of a document cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.forked_from IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM documents WHERE documents.id = NEW.forked_from;
+
+  IF NOT FOUND OR parent.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Documents can only be forked by their author';
+  END IF;
+
+  IF NEW.forked_event_count > parent.event_seq THEN
+    RAISE EXCEPTION 'Cannot fork after event %, the parent has % events',
+      NEW.forked_event_count, parent.event_seq;
+  END IF;
+
+  -- The fork's own events continue the inherited sequence
+  NEW.event_seq := NEW.forked_event_count;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER check_document_fork_on_write
+  BEFORE INSERT OR UPDATE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION check_document_fork();
+
+-- ============================================================================
+-- INHERITANCE
+-- ============================================================================
+
+-- One row per fork and ancestor: the fork reads the ancestor's events
+-- with after_seq < seq <= through_seq. A fork chain never changes, so the
+-- rows are written once, when the fork is made.
+CREATE TABLE document_inheritance (
+  fork_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  ancestor_id UUID NOT NULL REFERENCES documents(id) ON DELETE RESTRICT,
+  after_seq BIGINT NOT NULL CHECK (after_seq >= 0),
+  through_seq BIGINT NOT NULL CHECK (through_seq > after_seq),
+  PRIMARY KEY (fork_id, ancestor_id)
+);
+
+CREATE INDEX idx_document_inheritance_ancestor
+  ON document_inheritance(ancestor_id, through_seq);
+
+ALTER TABLE document_inheritance ENABLE ROW LEVEL SECURITY;
+
+-- Visible to whoever can read the fork (RLS on documents decides)
+CREATE POLICY "Inheritance of readable forks is viewable"
+  ON document_inheritance FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM documents
+      WHERE documents.id = document_inheritance.fork_id
+    )
+  );
+
+-- A fork inherits its parent's inheritance, cut at the fork point, plus
+-- the parent's own events up to it. The parent's rows already exist, so
+-- no chain has to be walked.
+CREATE OR REPLACE FUNCTION record_fork_inheritance(p_fork_id UUID)
+RETURNS VOID AS $$
+  INSERT INTO document_inheritance (fork_id, ancestor_id, after_seq, through_seq)
+  SELECT fork.id, inherited.ancestor_id, inherited.after_seq,
+    LEAST(inherited.through_seq, fork.forked_event_count)
+  FROM documents fork
+  JOIN document_inheritance inherited ON inherited.fork_id = fork.forked_from
+  WHERE fork.id = p_fork_id
+    AND inherited.after_seq < fork.forked_event_count
+
+  UNION ALL
+
+  SELECT fork.id, parent.id, COALESCE(parent.forked_event_count, 0),
+    fork.forked_event_count
+  FROM documents fork
+  JOIN documents parent ON parent.id = fork.forked_from
+  WHERE fork.id = p_fork_id
+    AND COALESCE(parent.forked_event_count, 0) < fork.forked_event_count;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Internal: only the trigger below records inheritance
+REVOKE EXECUTE ON FUNCTION record_fork_inheritance(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_fork_inheritance_on_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM record_fork_inheritance(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_fork_inheritance_after_insert
+  AFTER INSERT ON documents
+  FOR EACH ROW
+  WHEN (NEW.forked_from IS NOT NULL)
+  EXECUTE FUNCTION record_fork_inheritance_on_insert();
+
+-- Readers of a fork see the history it inherited, even when the ancestor
+-- itself is private: one indexed lookup per event
+CREATE POLICY "Events inherited by readable forks are viewable"
+  ON writing_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM document_inheritance
+      WHERE document_inheritance.ancestor_id = writing_events.document_id
+      AND document_inheritance.through_seq >= writing_events.seq
+    )
+  );
+
+-- Where each part of a document's history is stored: one row per document
+-- in the fork chain, oldest first, holding the events with
+-- after_seq < seq <= through_seq (through_seq is NULL for the document
+-- itself). Runs with the caller's rights: it is empty for documents the
+-- caller can't read, and never names ancestors of those.
+CREATE OR REPLACE FUNCTION document_lineage(p_document_id UUID)
+RETURNS TABLE (document_id UUID, after_seq BIGINT, through_seq BIGINT) AS $$
+  SELECT segments.document_id, segments.after_seq, segments.through_seq
+  FROM (
+    SELECT
+      document_inheritance.ancestor_id AS document_id,
+      document_inheritance.after_seq,
+      document_inheritance.through_seq
+    FROM document_inheritance
+    WHERE document_inheritance.fork_id = p_document_id
+
+    UNION ALL
+
+    SELECT documents.id, COALESCE(documents.forked_event_count, 0), NULL::BIGINT
+    FROM documents
+    WHERE documents.id = p_document_id
+  ) segments
+  ORDER BY segments.after_seq ASC;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
@@ -0,0 +1,24 @@
+-- Writing Timeline Platform - Drop Stale Checkpoints
+-- Migration: 020_drop_stale_checkpoints.sql
+-- Description: Remove checkpoints of histories whose seq order differs from their timestamp order
+
+-- Checkpoints made before migration 010 replayed events in (timestamp, id)
+-- order; replay now follows seq. Where the two orders agree the content
+-- is the same, so only documents with an event that sorts before its
+-- predecessor by (timestamp, id) lose their checkpoints. Rebuild them
+-- afterwards with `npm run backfill:checkpoints`.
+DELETE FROM checkpoints
+WHERE document_id IN (
+  SELECT ordered.document_id
+  FROM (
+    SELECT
+      document_id,
+      timestamp,
+      id,
+      LAG(timestamp) OVER history AS previous_timestamp,
+      LAG(id) OVER history AS previous_id
+    FROM writing_events
+    WINDOW history AS (PARTITION BY document_id ORDER BY seq ASC)
+  ) ordered
+  WHERE (ordered.timestamp, ordered.id) < (ordered.previous_timestamp, ordered.previous_id)
+);
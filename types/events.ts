@@ -29,6 +29,11 @@ export interface WritingEvent {
   document_id: string;
   /** Writing session identifier (UUID) */
   session_id: string;
+  /**
+   * Position in the document's history, assigned by the server on insert
+   * (1, 2, 3, ... per document). Absent on events that haven't synced yet.
+   */
+  seq?: number;
   /** High-resolution timestamp (performance.now() or Date.now()) */
   timestamp: number;
   /** Type of modification */
@@ -39,12 +44,17 @@ export interface WritingEvent {
   content: string | null;
   /** Previous content (for delete/replace, used in diff) */
   content_before: string | null;
+  /**
+   * Set on the events a restore appended: the seq of the last event
+   * they bring the text back to (see `restore.ts`)
+   */
+  restored_to?: number | null;
 }
 
 /**
- * Event for insertion into database (without id)
+ * Event for insertion into database (without id; seq is assigned by the server)
  */
-export interface WritingEventInsert extends Omit<WritingEvent, 'id'> {
+export interface WritingEventInsert extends Omit<WritingEvent, 'id' | 'seq'> {
   id?: string;
 }
 
@@ -55,6 +65,11 @@ export interface WritingEventInsert extends Omit<WritingEvent, 'id'> {
  * Includes sync status tracking.
  */
 export interface QueuedEvent extends WritingEvent {
+  /**
+   * Order in which this device recorded the event (per document). Pending
+   * events are uploaded in this order, which the server turns into `seq`.
+   */
+  local_seq: number;
   /** Whether this event has been synced to server */
   synced: boolean;
   /** ISO timestamp when queued locally */
@@ -63,6 +78,8 @@ export interface QueuedEvent extends WritingEvent {
   retry_count?: number;
   /** Last error message if sync failed */
   last_error?: string;
+  /** The server refused this event: it is never retried or replayed */
+  rejected?: boolean;
 }
 
 /**
@@ -73,6 +90,68 @@ export interface QueuedEvent extends WritingEvent {
 export interface EventBatchRequest {
   document_id: string;
   events: WritingEventInsert[];
+  /**
+   * Last server seq the events were recorded against. Events stored after
+   * it by other devices are concurrent, and the batch is rebased over them.
+   * Omit if unknown (the batch is then appended as-is).
+   */
+  base_seq?: number;
+}
+
+/**
+ * Per-Event Ingestion Status
+ *
+ * - inserted: Stored by this request
+ * - duplicate: Already stored (e.g. a retried batch); safe to treat as synced
+ * - absorbed: Had no effect once rebased over another device's edits
+ *   (e.g. it deleted text that was already deleted); nothing stored
+ * - rejected: Invalid and will never be stored; retrying won't help
+ */
+export type EventResultStatus = 'inserted' | 'duplicate' | 'absorbed' | 'rejected';
+
+/**
+ * Event Rejection Code
+ *
+ * - invalid_event: Missing or malformed fields
+ * - wrong_document: Event belongs to another document
+ * - position_out_of_range: Position is past the end of the text
+ * - content_mismatch: `content_before` is not the text at `position`
+ * - depends_on_rejected: Recorded after a rejected event in the same batch
+ *
+ * All but the first two mean the client's text has drifted from the
+ * server's history and must be resynced.
+ */
+export type EventRejectionCode =
+  | 'invalid_event'
+  | 'wrong_document'
+  | 'position_out_of_range'
+  | 'content_mismatch'
+  | 'depends_on_rejected';
+
+/**
+ * Structured Rejection Reason
+ */
+export interface EventRejection {
+  code: EventRejectionCode;
+  /** Human-readable explanation */
+  message: string;
+  /** Text the event expected to find (content_mismatch) */
+  expected?: string;
+  /** Text actually found at the position (content_mismatch) */
+  actual?: string;
+}
+
+/**
+ * Per-Event Ingestion Result
+ */
+export interface EventResult {
+  /** Event ID as sent by the client ('unknown' if it had none) */
+  id: string;
+  status: EventResultStatus;
+  /** Why the event was rejected */
+  reason?: string;
+  /** Structured form of `reason` */
+  rejection?: EventRejection;
 }
 
 /**
@@ -81,7 +160,19 @@ export interface EventBatchRequest {
 export interface EventBatchResponse {
   success: boolean;
   inserted_count: number;
+  /** Events that were already stored before this request */
+  duplicate_count?: number;
+  /** One result per submitted event, in request order */
+  results?: EventResult[];
+  /** IDs of rejected events */
   failed_events?: string[];
+  /** Latest seq the client is in step with once it applies `concurrent_events` */
+  head_seq?: number;
+  /**
+   * Events other devices stored after `base_seq`, rebased to apply on top
+   * of this batch (only when `base_seq` was sent)
+   */
+  concurrent_events?: WritingEvent[];
   error?: string;
 }
 
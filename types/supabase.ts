@@ -63,6 +63,9 @@ export interface Database {
           status: 'draft' | 'published' | 'archived';
           visibility: 'private' | 'public' | 'unlisted';
           published_at: string | null;
+          event_seq: number;
+          forked_from: string | null;
+          forked_event_count: number | null;
           metadata: Json;
           created_at: string;
           updated_at: string;
@@ -75,6 +78,9 @@ export interface Database {
           status?: 'draft' | 'published' | 'archived';
           visibility?: 'private' | 'public' | 'unlisted';
           published_at?: string | null;
+          event_seq?: number;
+          forked_from?: string | null;
+          forked_event_count?: number | null;
           metadata?: Json;
           created_at?: string;
           updated_at?: string;
@@ -87,6 +93,9 @@ export interface Database {
           status?: 'draft' | 'published' | 'archived';
           visibility?: 'private' | 'public' | 'unlisted';
           published_at?: string | null;
+          event_seq?: number;
+          forked_from?: string | null;
+          forked_event_count?: number | null;
           metadata?: Json;
           created_at?: string;
           updated_at?: string;
@@ -107,33 +116,39 @@ export interface Database {
           id: string;
           document_id: string;
           session_id: string;
+          seq: number;
           timestamp: number;
           event_type: 'insert' | 'delete' | 'replace';
           position: number;
           content: string | null;
           content_before: string | null;
+          restored_to: number | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           document_id: string;
           session_id: string;
+          seq?: number;
           timestamp: number;
           event_type: 'insert' | 'delete' | 'replace';
           position: number;
           content?: string | null;
           content_before?: string | null;
+          restored_to?: number | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           document_id?: string;
           session_id?: string;
+          seq?: number;
           timestamp?: number;
           event_type?: 'insert' | 'delete' | 'replace';
           position?: number;
           content?: string | null;
           content_before?: string | null;
+          restored_to?: number | null;
           created_at?: string;
         };
         Relationships: [
@@ -178,12 +193,123 @@ export interface Database {
           }
         ];
       };
+      document_versions: {
+        Row: {
+          id: string;
+          document_id: string;
+          name: string;
+          event_count: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          document_id: string;
+          name: string;
+          event_count: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          document_id?: string;
+          name?: string;
+          event_count?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'document_versions_document_id_fkey';
+            columns: ['document_id'];
+            isOneToOne: false;
+            referencedRelation: 'documents';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      document_share_tokens: {
+        Row: {
+          document_id: string;
+          share_token: string;
+        };
+        Insert: {
+          document_id: string;
+          share_token?: string;
+        };
+        Update: {
+          document_id?: string;
+          share_token?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'document_share_tokens_document_id_fkey';
+            columns: ['document_id'];
+            isOneToOne: true;
+            referencedRelation: 'documents';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      document_inheritance: {
+        Row: {
+          fork_id: string;
+          ancestor_id: string;
+          after_seq: number;
+          through_seq: number;
+        };
+        Insert: {
+          fork_id: string;
+          ancestor_id: string;
+          after_seq: number;
+          through_seq: number;
+        };
+        Update: {
+          fork_id?: string;
+          ancestor_id?: string;
+          after_seq?: number;
+          through_seq?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'document_inheritance_fork_id_fkey';
+            columns: ['fork_id'];
+            isOneToOne: false;
+            referencedRelation: 'documents';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'document_inheritance_ancestor_id_fkey';
+            columns: ['ancestor_id'];
+            isOneToOne: false;
+            referencedRelation: 'documents';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      append_events: {
+        Args: {
+          p_document_id: string;
+          p_expected_seq: number | null;
+          p_events: Json;
+        };
+        Returns: {
+          id: string;
+          seq: number;
+        }[];
+      };
+      document_lineage: {
+        Args: {
+          p_document_id: string;
+        };
+        Returns: {
+          document_id: string;
+          after_seq: number;
+          through_seq: number | null;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -199,6 +325,7 @@ export type Profile = Database['public']['Tables']['profiles']['Row'];
 export type Document = Database['public']['Tables']['documents']['Row'];
 export type WritingEvent = Database['public']['Tables']['writing_events']['Row'];
 export type Checkpoint = Database['public']['Tables']['checkpoints']['Row'];
+export type NamedVersion = Database['public']['Tables']['document_versions']['Row'];
 
 export type ProfileInsert = Database['public']['Tables']['profiles']['Insert'];
 export type DocumentInsert = Database['public']['Tables']['documents']['Insert'];
@@ -206,6 +333,8 @@ export type WritingEventInsert =
   Database['public']['Tables']['writing_events']['Insert'];
 export type CheckpointInsert =
   Database['public']['Tables']['checkpoints']['Insert'];
+export type NamedVersionInsert =
+  Database['public']['Tables']['document_versions']['Insert'];
 
 export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
 export type DocumentUpdate = Database['public']['Tables']['documents']['Update'];
@@ -213,3 +342,5 @@ export type WritingEventUpdate =
   Database['public']['Tables']['writing_events']['Update'];
 export type CheckpointUpdate =
   Database['public']['Tables']['checkpoints']['Update'];
+export type NamedVersionUpdate =
+  Database['public']['Tables']['document_versions']['Update'];